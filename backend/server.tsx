@@ -18,10 +18,36 @@ import SolanaService from './services/solanaService.js';
 import MetaplexService from './services/metaplexService.js';
 import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
+import { Connection } from '@solana/web3.js';
+import { TIMEFRAME_SECONDS } from './src/config/trading.js';
+import { TradingController } from './src/controllers/TradingController.js';
+import { runMigrations } from './src/db/migrations.js';
+import { createAuthMiddleware } from './src/middleware/auth.js';
+import { mountTradingApi } from './src/routes/trading.js';
+import { BacktestEngine } from './src/services/backtesting/BacktestEngine.js';
+import { BirdeyeService } from './src/services/dataProviders/BirdeyeService.js';
+import { DexScreenerService } from './src/services/dataProviders/DexScreenerService.js';
+import { JupiterService } from './src/services/dataProviders/JupiterService.js';
+import { CandleStore } from './src/services/marketData/CandleStore.js';
+import { MarketDataService } from './src/services/marketData/MarketDataService.js';
+import { PaperTradingService } from './src/services/paperTrading/PaperTradingService.js';
+import { PortfolioManager } from './src/services/portfolio/PortfolioManager.js';
+import { PortfolioSnapshotService } from './src/services/portfolio/PortfolioSnapshotService.js';
+import { TaxExportService } from './src/services/portfolio/TaxExportService.js';
+import { SocketGateway, isReservedRoom } from './src/services/realtime/SocketGateway.js';
+import { ArbitrageDetector } from './src/services/tradingEngine/ArbitrageDetector.js';
+import { MEVScanner } from './src/services/tradingEngine/MEVScanner.js';
+import { OrderExecutionService } from './src/services/tradingEngine/OrderExecutionService.js';
+import { OrderScheduler } from './src/services/tradingEngine/OrderScheduler.js';
+import { RiskManager } from './src/services/tradingEngine/RiskManager.js';
+import { StrategyEngine } from './src/services/tradingEngine/StrategyEngine.js';
+import { KeystoreSigner } from './src/services/transactions/KeystoreSigner.js';
+import { TransactionSender } from './src/services/transactions/TransactionSender.js';
 dotenv.config();
 
 // Define required env vars and service instances at the top
 const ENCRYPTION_SECRET = process.env.ENCRYPTION_SECRET || 'changeme';
+const JWT_SECRET = process.env.JWT_SECRET || ENCRYPTION_SECRET;
 const NFT_STORAGE_API_KEY = process.env.NFT_STORAGE_API_KEY || '';
 const solanaService = new SolanaService();
 const metaplexService = new MetaplexService();
@@ -83,6 +109,70 @@ const logger = winston.createLogger({
   ],
 });
 
+// Trading services
+const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com', 'confirmed');
+const transactionSender = new TransactionSender(connection, pool, logger);
+// Live orders are signed with users' stored trading keys, which need a real encryption secret
+const keystoreSigner = process.env.ENCRYPTION_SECRET
+  ? new KeystoreSigner(pool, logger, process.env.ENCRYPTION_SECRET)
+  : undefined;
+if (!keystoreSigner) {
+  logger.warn('ENCRYPTION_SECRET is not set: live trading is disabled, only paper orders are accepted');
+}
+const jupiterService = new JupiterService(connection, logger, keystoreSigner, transactionSender);
+const birdeyeService = new BirdeyeService(logger);
+const dexScreenerService = new DexScreenerService(logger);
+const candleStore = new CandleStore(pool, logger, jupiterService, birdeyeService);
+const paperTradingService = new PaperTradingService(pool, logger, jupiterService);
+const portfolioManager = new PortfolioManager(connection, pool, logger, jupiterService, paperTradingService, dexScreenerService);
+const riskManager = new RiskManager(pool, logger, jupiterService, portfolioManager, dexScreenerService);
+const orderExecutionService = new OrderExecutionService(
+  connection, pool, logger, jupiterService, riskManager, portfolioManager, paperTradingService
+);
+const orderScheduler = new OrderScheduler(pool, logger, orderExecutionService);
+const strategyEngine = new StrategyEngine(pool, logger, orderExecutionService, jupiterService);
+const arbitrageDetector = new ArbitrageDetector(pool, logger, jupiterService, dexScreenerService, io);
+const mevScanner = new MEVScanner(connection, pool, logger, jupiterService);
+const snapshotService = new PortfolioSnapshotService(pool, logger, portfolioManager, jupiterService);
+const authMiddleware = createAuthMiddleware(pool, JWT_SECRET);
+const socketGateway = new SocketGateway(
+  io, pool, logger, authMiddleware, orderExecutionService, portfolioManager, jupiterService, dexScreenerService
+);
+const tradingController = new TradingController(
+  pool,
+  logger,
+  orderExecutionService,
+  portfolioManager,
+  strategyEngine,
+  new MarketDataService(logger, candleStore, dexScreenerService),
+  new BacktestEngine(pool, logger),
+  paperTradingService,
+  mevScanner,
+  snapshotService,
+  new TaxExportService(pool, logger, portfolioManager),
+  keystoreSigner
+);
+arbitrageDetector.onOpportunity(opportunity => strategyEngine.handleArbitrageOpportunity(opportunity));
+transactionSender.onStatusChange((signature, status, context) =>
+  orderExecutionService.handleSwapStatus(signature, status, context)
+);
+
+mountTradingApi(app, tradingController, authMiddleware);
+
+// Background jobs only start once the schema is up to date
+runMigrations(pool, logger)
+  .then(async () => {
+    transactionSender.start();
+    candleStore.start();
+    orderScheduler.start();
+    strategyEngine.start();
+    arbitrageDetector.start();
+    mevScanner.start();
+    snapshotService.start();
+    await socketGateway.start();
+  })
+  .catch(err => logger.error('Failed to start trading services:', err));
+
 // Rate limiting middleware
 const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -467,7 +557,7 @@ function adminAuth(req, res, next) {
     return res.status(401).json({ error: 'Missing or invalid authorization' });
   }
   try {
-    const decoded = jwt.verify(token, ENCRYPTION_SECRET);
+    const decoded = jwt.verify(token, JWT_SECRET);
     if (typeof decoded === 'object' && decoded && 'isAdmin' in decoded && decoded.isAdmin) {
       req.admin = decoded;
       next();
@@ -502,7 +592,7 @@ app.post('/api/admin/login', [
     username === process.env.ADMIN_USERNAME &&
     password === process.env.ADMIN_PASSWORD
   ) {
-    const token = jwt.sign({ username, isAdmin: true }, ENCRYPTION_SECRET, { expiresIn: '12h' });
+    const token = jwt.sign({ username, isAdmin: true }, JWT_SECRET, { expiresIn: '12h' });
     res.cookie('adminToken', token, {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
@@ -706,6 +796,11 @@ io.on('connection', (socket) => {
   logger.info(`User connected: ${socket.id}`);
   
   socket.on('join-room', (roomId) => {
+    // Trading rooms are managed by the socket gateway
+    if (typeof roomId !== 'string' || isReservedRoom(roomId)) {
+      socket.emit('error', { message: 'Cannot join this room' });
+      return;
+    }
     socket.join(roomId);
     logger.info(`User ${socket.id} joined room ${roomId}`);
   });
@@ -759,32 +854,19 @@ app.get('/api/chart/:token', (async (req, res) => {
   const { token } = req.params;
   const { interval = '1m', limit = 100 } = req.query;
   try {
-    // 1. Try Jupiter Candles API (https://price.jup.ag/docs/api/candles)
-    let jupiterData: any[] = [];
-    try {
-      const jupRes = await fetch(`https://price.jup.ag/v6/candles?ids=${token}&interval=${interval}&limit=${limit}`);
-      if (jupRes.ok) {
-        const jupJson = await jupRes.json() as any;
-        if (jupJson[token]) jupiterData = jupJson[token];
-      }
-    } catch (e) { /* ignore Jupiter errors */ }
-
-    // 2. Try Pump.fun (Pump Swap) API for chart data (https://api.pump.fun/v1/candles/{mint})
-    let pumpData: any[] = [];
-    try {
-      const pumpRes = await fetch(`https://api.pump.fun/v1/candles/${token}?interval=${interval}&limit=${limit}`);
-      if (pumpRes.ok) {
-        const pumpJson = await pumpRes.json() as any;
-        if (Array.isArray(pumpJson)) pumpData = pumpJson;
-      }
-    } catch (e) { /* ignore Pump errors */ }
+    if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(token)) {
+      return res.status(400).json({ error: 'Invalid token mint address' });
+    }
+    if (!TIMEFRAME_SECONDS[interval as string]) {
+      return res.status(400).json({ error: `interval must be one of ${Object.keys(TIMEFRAME_SECONDS).join(', ')}` });
+    }
 
-    // Prefer Jupiter, fallback to Pump.fun
-    const chartData = jupiterData.length ? jupiterData : pumpData;
-    if (!chartData.length) {
+    // Served from our own candle store, which backfills from providers when it has gaps
+    const chart = await candleStore.getCandles(token, interval as string, Math.min(parseInt(limit as string) || 100, 1000));
+    if (!chart.length) {
       return res.status(404).json({ error: 'No chart data found for this token.' });
     }
-    res.json({ chart: chartData });
+    res.json({ chart });
   } catch (err) {
     logger.error(err);
     res.status(500).json({ error: 'Failed to fetch chart data' });
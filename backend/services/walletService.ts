@@ -4,13 +4,18 @@ import {
     PublicKey,
     Keypair,
     Transaction,
+    TransactionInstruction,
     SystemProgram,
-    LAMPORTS_PER_SOL,
-    sendAndConfirmTransaction
+    LAMPORTS_PER_SOL
 } from '@solana/web3.js';
 import {
-    getOrCreateAssociatedTokenAccount,
+    getAssociatedTokenAddressSync,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createInitializeMint2Instruction,
+    createMintToInstruction,
     createTransferInstruction,
+    getMinimumBalanceForRentExemptMint,
+    MINT_SIZE,
     TOKEN_PROGRAM_ID,
     ASSOCIATED_TOKEN_PROGRAM_ID
 } from '@solana/spl-token';
@@ -18,22 +23,38 @@ import bs58 from 'bs58';
 import crypto from 'crypto';
 import axios from 'axios';
 import dotenv from 'dotenv';
+import winston from 'winston';
+import { JupiterService, SwapSigner } from '../src/services/dataProviders/JupiterService';
+import { FeeOptions, PriorityFeeEstimator } from '../src/services/transactions/PriorityFeeEstimator';
+import { SendContext, TransactionSender } from '../src/services/transactions/TransactionSender';
+import { Quote } from '../src/types/trading';
+import { decryptPrivateKey, encryptPrivateKey } from '../src/utils/keyEncryption';
 dotenv.config();
 
+const logger = winston.createLogger({
+    level: 'info',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.printf(({ timestamp, level, message }) => `${timestamp} ${level}: ${message}`)
+    ),
+    transports: [new winston.transports.Console()]
+});
+
 /**
  * WalletService provides utility methods for interacting with the Solana blockchain,
- * including wallet management, SOL and SPL token transfers, token swaps via Jupiter API,
+ * including wallet management, SOL and SPL token transfers, token swaps via JupiterService,
  * balance queries, transaction history, and secure private key encryption.
  *
  * @class
  *
  * @property {Connection} connection - Solana RPC connection instance.
- * @property {string} jupiterApiUrl - Jupiter API base URL for swaps and quotes.
  * @property {number} platformFeeBps - Platform fee in basis points for swaps.
  * @property {string} platformFeeAccount - SPL token account to receive platform fees.
+ * @property {PriorityFeeEstimator} feeEstimator - Prices priority fees and compute budgets for every transaction sent.
+ * @property {TransactionSender} transactionSender - Rebroadcasts transactions until they land and records them in pending_transactions.
  *
  * @example
- * const walletService = new WalletService();
+ * const walletService = new WalletService(connection, transactionSender);
  *
  * // Generate a new wallet
  * const wallet = walletService.generateWallet();
@@ -50,51 +71,46 @@ dotenv.config();
  */
 class WalletService {
     connection: Connection;
-    jupiterApiUrl: string;
     platformFeeBps: number;
     platformFeeAccount: string | undefined;
+    feeEstimator: PriorityFeeEstimator;
+    transactionSender: TransactionSender;
 
-    constructor() {
-        this.connection = new Connection(
-            process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
-            'confirmed'
-        );
-        this.jupiterApiUrl = 'https://quote-api.jup.ag/v6';
+    /**
+     * @param {Connection} connection - The app's shared RPC connection
+     * @param {TransactionSender} transactionSender - The app's shared sender; it must be started so
+     *   wallet transactions still pending after a send or a restart are rebroadcast and reconciled
+     */
+    constructor(connection: Connection, transactionSender: TransactionSender) {
+        this.connection = connection;
+        this.feeEstimator = new PriorityFeeEstimator(this.connection, logger);
+        this.transactionSender = transactionSender;
         this.platformFeeBps = parseInt(process.env.PLATFORM_FEE_BPS || '30'); // 0.3%
         this.platformFeeAccount = process.env.PLATFORM_FEE_ACCOUNT; // SPL token account to receive fee
     }
 
+    /**
+     * Best Jupiter route for a swap, or undefined if there is none
+     * @param {Object} route - inputMint, outputMint and amount (in the input token's smallest unit)
+     * @returns {Promise<Quote|undefined>} Quote for the route
+     */
     async getSwapRoute({ inputMint, outputMint, amount }) {
-        const url = `${this.jupiterApiUrl}/swap`; // newer endpoint supports fee
-
-        const params = {
-            inputMint,
-            outputMint,
-            amount,
-            slippageBps: 50,
-            platformFeeBps: this.platformFeeBps,
-            platformFeeAccount: this.platformFeeAccount
-        };
-
-        const { data } = await axios.get(`${this.jupiterApiUrl}/quote`, { params });
-        return data?.[0];
+        const quote = await this.getSwapQuote(inputMint, outputMint, amount);
+        return quote.success ? quote.data : undefined;
     }
 
-    async buildAndSendSwapTx(userKeypair, route) {
-        const { data } = await axios.post(`${this.jupiterApiUrl}/swap`, {
-            route,
-            userPublicKey: userKeypair.publicKey.toBase58(),
-            wrapUnwrapSOL: true,
-            feeAccount: this.platformFeeAccount
-        });
-
-        const txBuf = Buffer.from(data.swapTransaction, 'base64');
-        const tx = Transaction.from(txBuf);
-        tx.partialSign(userKeypair);
-
-        const signature = await this.connection.sendRawTransaction(tx.serialize());
-        await this.connection.confirmTransaction(signature);
-        return signature;
+    /**
+     * Sign and send the swap for a route from getSwapRoute
+     * @param {Keypair} userKeypair - Wallet that swaps and signs
+     * @param {Quote} route - Quote from getSwapRoute
+     * @returns {Promise<string>} Transaction signature
+     */
+    async buildAndSendSwapTx(userKeypair: Keypair, route: Quote) {
+        const result = await this.jupiter(userKeypair).executeSwap(route, userKeypair.publicKey.toBase58());
+        if (!result.success) {
+            throw new Error(result.error);
+        }
+        return result.signature;
     }
 
     /**
@@ -222,26 +238,22 @@ class WalletService {
      * @param {string} fromPrivateKey - Sender's private key
      * @param {string} toPublicKey - Recipient's public key
      * @param {number} amount - Amount in SOL
+     * @param {FeeOptions} [feeOptions] - Priority level and fee cap (optional)
      * @returns {Promise<Object> Transaction result
      */
-    async sendSOL(fromPrivateKey: string, toPublicKey: string, amount: number) {
+    async sendSOL(fromPrivateKey: string, toPublicKey: string, amount: number, feeOptions: FeeOptions = {}) {
         try {
             const fromKeypair = Keypair.fromSecretKey(bs58.decode(fromPrivateKey));
             const toPubKey = new PublicKey(toPublicKey);
-            const lamports = amount * LAMPORTS_PER_SOL;
+            const lamports = Math.round(amount * LAMPORTS_PER_SOL);
 
-            const transaction = new Transaction().add(
-                SystemProgram.transfer({
-                    fromPubkey: fromKeypair.publicKey,
-                    toPubkey: toPubKey,
-                    lamports
-                })
-            );
-
-            const signature = await sendAndConfirmTransaction(
-                this.connection,
-                transaction,
-                [fromKeypair]
+            const transferIx = SystemProgram.transfer({
+                fromPubkey: fromKeypair.publicKey,
+                toPubkey: toPubKey,
+                lamports
+            });
+            const { signature, priorityFeeLamports } = await this.sendInstructions(
+                [transferIx], [fromKeypair], feeOptions, { kind: 'transfer', wallet: fromKeypair.publicKey.toString() }
             );
 
             return {
@@ -250,7 +262,8 @@ class WalletService {
                     signature,
                     amount,
                     from: fromKeypair.publicKey.toString(),
-                    to: toPublicKey
+                    to: toPublicKey,
+                    priorityFeeLamports
                 }
             };
         } catch (error) {
@@ -267,20 +280,21 @@ class WalletService {
      * @param {string} toPublicKey - Recipient's public key
      * @param {number} amount - Amount of tokens to send (in UI units)
      * @param {string} mint - SPL token mint address
+     * @param {FeeOptions} [feeOptions] - Priority level and fee cap (optional)
      * @returns {Promise<Object>} Transaction result
      */
-    async sendSPLToken(fromPrivateKey: string, toPublicKey: string, amount: number, mint: string) {
+    async sendSPLToken(fromPrivateKey: string, toPublicKey: string, amount: number, mint: string, feeOptions: FeeOptions = {}) {
         try {
             const fromKeypair = Keypair.fromSecretKey(bs58.decode(fromPrivateKey));
             const mintPubkey = new PublicKey(mint);
             const toPubkey = new PublicKey(toPublicKey);
 
-            // Get or create associated token accounts
-            const fromTokenAccount = await getOrCreateAssociatedTokenAccount(
-                this.connection, fromKeypair, mintPubkey, fromKeypair.publicKey
-            );
-            const toTokenAccount = await getOrCreateAssociatedTokenAccount(
-                this.connection, fromKeypair, mintPubkey, toPubkey
+            // The recipient's token account is created in the same transaction if it is missing,
+            // so the whole transfer runs under one compute budget
+            const fromTokenAccount = getAssociatedTokenAddressSync(mintPubkey, fromKeypair.publicKey);
+            const toTokenAccount = getAssociatedTokenAddressSync(mintPubkey, toPubkey);
+            const createAccountIx = createAssociatedTokenAccountIdempotentInstruction(
+                fromKeypair.publicKey, toTokenAccount, toPubkey, mintPubkey
             );
 
             // Get decimals for the mint
@@ -293,24 +307,30 @@ class WalletService {
 
             // Create transfer instruction
             const transferIx = createTransferInstruction(
-                fromTokenAccount.address,
-                toTokenAccount.address,
+                fromTokenAccount,
+                toTokenAccount,
                 fromKeypair.publicKey,
                 amountInSmallestUnit,
                 [],
                 TOKEN_PROGRAM_ID
             );
 
-            const tx = new Transaction().add(transferIx);
-            const signature = await sendAndConfirmTransaction(
-                this.connection,
-                tx,
-                [fromKeypair]
+            const { signature, priorityFeeLamports } = await this.sendInstructions(
+                [createAccountIx, transferIx],
+                [fromKeypair],
+                feeOptions,
+                { kind: 'transfer', wallet: fromKeypair.publicKey.toString() }
             );
 
             return {
                 success: true,
-                data: { signature, from: fromTokenAccount.address.toString(), to: toTokenAccount.address.toString(), amount }
+                data: {
+                    signature,
+                    from: fromTokenAccount.toString(),
+                    to: toTokenAccount.toString(),
+                    amount,
+                    priorityFeeLamports
+                }
             };
         } catch (error) {
             return { success: false, error: error.message };
@@ -322,45 +342,53 @@ class WalletService {
      * @param {string} fromPrivateKey - Creator's private key (base58)
      * @param {number} decimals - Number of decimals for the token
      * @param {number} initialSupply - Initial supply (UI units)
+     * @param {FeeOptions} [feeOptions] - Priority level and fee cap (optional)
      * @returns {Promise<Object>} Mint info
      */
-    async createSPLToken(fromPrivateKey: string, decimals: number, initialSupply: number) {
+    async createSPLToken(fromPrivateKey: string, decimals: number, initialSupply: number, feeOptions: FeeOptions = {}) {
         try {
             const fromKeypair = Keypair.fromSecretKey(bs58.decode(fromPrivateKey));
-            const mint = await import('@solana/spl-token').then(spl =>
-                spl.createMint(
-                    this.connection,
-                    fromKeypair,
-                    fromKeypair.publicKey,
-                    null,
-                    decimals
+            const mintKeypair = Keypair.generate();
+            const mint = mintKeypair.publicKey;
+            const tokenAccount = getAssociatedTokenAddressSync(mint, fromKeypair.publicKey);
+
+            // Mint account, creator's token account and initial supply go out in one transaction
+            const instructions = [
+                SystemProgram.createAccount({
+                    fromPubkey: fromKeypair.publicKey,
+                    newAccountPubkey: mint,
+                    space: MINT_SIZE,
+                    lamports: await getMinimumBalanceForRentExemptMint(this.connection),
+                    programId: TOKEN_PROGRAM_ID
+                }),
+                createInitializeMint2Instruction(mint, decimals, fromKeypair.publicKey, null),
+                createAssociatedTokenAccountIdempotentInstruction(
+                    fromKeypair.publicKey, tokenAccount, fromKeypair.publicKey, mint
                 )
-            );
-            // Create associated token account for creator
-            const tokenAccount = await getOrCreateAssociatedTokenAccount(
-                this.connection, fromKeypair, mint, fromKeypair.publicKey
-            );
-            // Mint initial supply to creator
+            ];
             if (initialSupply > 0) {
                 const amountInSmallestUnit = Math.floor(initialSupply * Math.pow(10, decimals));
-                await import('@solana/spl-token').then(spl =>
-                    spl.mintTo(
-                        this.connection,
-                        fromKeypair,
-                        mint,
-                        tokenAccount.address,
-                        fromKeypair.publicKey,
-                        amountInSmallestUnit
-                    )
+                instructions.push(
+                    createMintToInstruction(mint, tokenAccount, fromKeypair.publicKey, amountInSmallestUnit)
                 );
             }
+
+            const { signature, priorityFeeLamports } = await this.sendInstructions(
+                instructions,
+                [fromKeypair, mintKeypair],
+                feeOptions,
+                { kind: 'create_token', reference: mint.toString(), wallet: fromKeypair.publicKey.toString() }
+            );
+
             return {
                 success: true,
                 data: {
                     mint: mint.toString(),
-                    tokenAccount: tokenAccount.address.toString(),
+                    tokenAccount: tokenAccount.toString(),
                     decimals,
-                    initialSupply
+                    initialSupply,
+                    signature,
+                    priorityFeeLamports
                 }
             };
         } catch (error) {
@@ -395,22 +423,11 @@ class WalletService {
      */
     async getSwapQuote(inputMint: string, outputMint: string, amount: number, slippageBps = 50, platformFeeBps?: number, platformFeeAccount?: string) {
         try {
-            const params = new URLSearchParams({
-                inputMint,
-                outputMint,
-                amount: amount.toString(),
-                slippageBps: slippageBps.toString(),
-                platformFeeBps: (platformFeeBps || this.platformFeeBps).toString()
-            });
-            if (platformFeeAccount || this.platformFeeAccount) {
-                params.append('platformFeeAccount', platformFeeAccount || this.platformFeeAccount!);
-            }
-
-            const response = await fetch(`${this.jupiterApiUrl}/quote?${params}`);
-            const quote = await response.json();
-
-            if (!response.ok) {
-                throw new Error(quote.error || 'Failed to get quote');
+            const jupiter = this.jupiter(undefined, platformFeeBps, platformFeeAccount);
+            const decimals = await jupiter.getTokenDecimals(inputMint);
+            const quote = await jupiter.getQuote(inputMint, outputMint, amount / 10 ** decimals, slippageBps);
+            if (!quote) {
+                throw new Error('Failed to get quote');
             }
 
             return {
@@ -430,52 +447,36 @@ class WalletService {
      * @param {Object} quote - Quote from getSwapQuote
      * @param {string} userPublicKey - User's wallet public key
      * @param {string} privateKey - User's private key for signing
-     * @param {number} [prioritizationFeeLamports] - User-specified priority fee (optional)
+     * @param {number} [prioritizationFeeLamports] - User-specified total priority fee, still capped (optional)
+     * @param {FeeOptions} [feeOptions] - Priority level and fee cap when the fee is estimated (optional)
+     * @param {number} [platformFeeBps] - Platform fee the quote was requested with (optional, default from env)
+     * @param {string} [platformFeeAccount] - Platform fee account (optional, default from env)
      * @returns {Promise<Object>} Swap transaction result
      */
-    async executeSwap(quote: any, userPublicKey: string, privateKey: string, prioritizationFeeLamports = 1000) {
+    async executeSwap(quote: Quote, userPublicKey: string, privateKey: string, prioritizationFeeLamports?: number, feeOptions: FeeOptions = {}, platformFeeBps?: number, platformFeeAccount?: string) {
         try {
-            // Get swap transaction from Jupiter
-            const swapResponse = await fetch(`${this.jupiterApiUrl}/swap`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    quoteResponse: quote,
-                    userPublicKey,
-                    wrapAndUnwrapSol: true,
-                    dynamicComputeUnitLimit: true,
-                    prioritizationFeeLamports: prioritizationFeeLamports || 1000
-                })
-            });
-
-            const swapData = await swapResponse.json();
-            
-            if (!swapResponse.ok) {
-                throw new Error(swapData.error || 'Failed to get swap transaction');
-            }
-
-            // Deserialize and sign the transaction
-            const swapTransactionBuf = Buffer.from(swapData.swapTransaction, 'base64');
-            const transaction = Transaction.from(swapTransactionBuf);
             const keypair = Keypair.fromSecretKey(bs58.decode(privateKey));
 
-            // Sign and send transaction
-            transaction.sign(keypair);
-            const signature = await this.connection.sendRawTransaction(transaction.serialize());
-            
-            // Confirm transaction
-            await this.connection.confirmTransaction(signature, 'confirmed');
+            // Rebuilt from the same quote if the first transaction expires unconfirmed
+            const jupiter = this.jupiter(keypair, platformFeeBps, platformFeeAccount);
+            const result = await jupiter.executeSwap(quote, userPublicKey, undefined, undefined, {
+                ...feeOptions,
+                prioritizationFeeLamports
+            });
+            if (!result.success) {
+                throw new Error(result.error);
+            }
 
             return {
                 success: true,
                 data: {
-                    signature,
+                    signature: result.signature,
                     inputAmount: quote.inAmount,
                     outputAmount: quote.outAmount,
+                    receivedAmount: result.outputAmount,
                     inputMint: quote.inputMint,
-                    outputMint: quote.outputMint
+                    outputMint: quote.outputMint,
+                    fees: result.fees
                 }
             };
         } catch (error) {
@@ -486,6 +487,52 @@ class WalletService {
         }
     }
 
+    /**
+     * Send instructions under an estimated compute budget, signed by `signers` (the first pays)
+     * @param {TransactionInstruction[]} instructions - Instructions to send
+     * @param {Keypair[]} signers - Fee payer first, then any other required signers
+     * @param {FeeOptions} feeOptions - Priority level and fee cap
+     * @param {SendContext} context - What the transaction is, recorded with it
+     * @returns {Promise<Object>} Signature and priority fee paid
+     */
+    async sendInstructions(instructions: TransactionInstruction[], signers: Keypair[], feeOptions: FeeOptions, context: SendContext) {
+        const feePayer = signers[0].publicKey;
+        const budget = await this.feeEstimator.getComputeBudget(instructions, feePayer, feeOptions);
+
+        const result = await this.transactionSender.send(async () => {
+            const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+            const transaction = new Transaction({ feePayer, blockhash, lastValidBlockHeight })
+                .add(...budget.instructions, ...instructions);
+            transaction.sign(...signers);
+            return { transaction, lastValidBlockHeight };
+        }, context);
+
+        if (!result.success) {
+            throw new Error(result.error);
+        }
+        return { signature: result.signature, priorityFeeLamports: budget.priorityFeeLamports };
+    }
+
+    /**
+     * JupiterService for one call, signing swaps with `keypair` and charging the given platform fee
+     * @param {Keypair} [keypair] - Signer for swaps (optional, quotes only without one)
+     * @param {number} [platformFeeBps] - Platform fee in basis points (optional, default from env)
+     * @param {string} [platformFeeAccount] - Platform fee account (optional, default from env)
+     * @returns {JupiterService} Client sharing this service's connection and transaction sender
+     */
+    jupiter(keypair?: Keypair, platformFeeBps?: number, platformFeeAccount?: string) {
+        const signer: SwapSigner | undefined = keypair && {
+            signTransaction: async (_wallet, transaction) => {
+                transaction.sign([keypair]);
+                return transaction;
+            }
+        };
+        return new JupiterService(this.connection, logger, signer, this.transactionSender, {
+            platformFeeBps: platformFeeBps ?? this.platformFeeBps,
+            platformFeeAccount: platformFeeAccount ?? this.platformFeeAccount
+        });
+    }
+
     /**
      * Buy token with SOL (wrapper for executeSwap)
      * @param {string} tokenMint - Token to buy
@@ -496,9 +543,10 @@ class WalletService {
      * @param {number} [prioritizationFeeLamports] - User-specified priority fee (optional)
      * @param {number} [platformFeeBps] - Platform fee in basis points (optional)
      * @param {string} [platformFeeAccount] - Platform fee account (optional)
+     * @param {FeeOptions} [feeOptions] - Priority level and fee cap when the fee is estimated (optional)
      * @returns {Promise<Object>} Purchase result
      */
-    async buyTokenWithSOL(tokenMint: string, solAmount: number, userPublicKey: string, privateKey: string, slippageBps = 100, prioritizationFeeLamports?: number, platformFeeBps?: number, platformFeeAccount?: string) {
+    async buyTokenWithSOL(tokenMint: string, solAmount: number, userPublicKey: string, privateKey: string, slippageBps = 100, prioritizationFeeLamports?: number, platformFeeBps?: number, platformFeeAccount?: string, feeOptions: FeeOptions = {}) {
         try {
             const SOL_MINT = 'So11111111111111111111111111111111111111112'; // Wrapped SOL
             const amount = Math.floor(solAmount * LAMPORTS_PER_SOL);
@@ -510,7 +558,7 @@ class WalletService {
             }
 
             // Execute swap
-            const swapResult = await this.executeSwap(quoteResult.data, userPublicKey, privateKey, prioritizationFeeLamports);
+            const swapResult = await this.executeSwap(quoteResult.data, userPublicKey, privateKey, prioritizationFeeLamports, feeOptions, platformFeeBps, platformFeeAccount);
             
             return {
                 success: swapResult.success,
@@ -540,9 +588,10 @@ class WalletService {
      * @param {number} [prioritizationFeeLamports] - User-specified priority fee (optional)
      * @param {number} [platformFeeBps] - Platform fee in basis points (optional)
      * @param {string} [platformFeeAccount] - Platform fee account (optional)
+     * @param {FeeOptions} [feeOptions] - Priority level and fee cap when the fee is estimated (optional)
      * @returns {Promise<Object>} Sale result
      */
-    async sellTokenForSOL(tokenMint: string, tokenAmount: number, userPublicKey: string, privateKey: string, slippageBps = 100, prioritizationFeeLamports?: number, platformFeeBps?: number, platformFeeAccount?: string) {
+    async sellTokenForSOL(tokenMint: string, tokenAmount: number, userPublicKey: string, privateKey: string, slippageBps = 100, prioritizationFeeLamports?: number, platformFeeBps?: number, platformFeeAccount?: string, feeOptions: FeeOptions = {}) {
         try {
             const SOL_MINT = 'So11111111111111111111111111111111111111112';
 
@@ -553,7 +602,7 @@ class WalletService {
             }
 
             // Execute swap
-            const swapResult = await this.executeSwap(quoteResult.data, userPublicKey, privateKey, prioritizationFeeLamports);
+            const swapResult = await this.executeSwap(quoteResult.data, userPublicKey, privateKey, prioritizationFeeLamports, feeOptions, platformFeeBps, platformFeeAccount);
             
             return {
                 success: swapResult.success,
@@ -561,7 +610,7 @@ class WalletService {
                     ...swapResult.data,
                     type: 'sell',
                     tokenSold: tokenAmount,
-                    solReceived: (swapResult.data?.outputAmount || 0) / LAMPORTS_PER_SOL
+                    solReceived: swapResult.data?.receivedAmount ?? parseInt(swapResult.data?.outputAmount || '0') / LAMPORTS_PER_SOL
                 },
                 error: swapResult.error
             };
@@ -659,14 +708,7 @@ class WalletService {
      * @returns {string} Encrypted private key (iv:authTag:encrypted)
      */
     encryptPrivateKey(privateKey: string, password: string) {
-        const algorithm = 'aes-256-gcm';
-        const key = crypto.scryptSync(password, 'salt', 32);
-        const iv = crypto.randomBytes(12); // 12 bytes for GCM
-        const cipher = crypto.createCipheriv(algorithm, key, iv);
-        let encrypted = cipher.update(privateKey, 'utf8', 'hex');
-        encrypted += cipher.final('hex');
-        const authTag = cipher.getAuthTag();
-        return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+        return encryptPrivateKey(privateKey, password);
     }
 
     /**
@@ -676,16 +718,7 @@ class WalletService {
      * @returns {string} Decrypted private key
      */
     decryptPrivateKey(encryptedKey: string, password: string) {
-        const algorithm = 'aes-256-gcm';
-        const key = crypto.scryptSync(password, 'salt', 32);
-        const [ivHex, authTagHex, encrypted] = encryptedKey.split(':');
-        const iv = Buffer.from(ivHex, 'hex');
-        const authTag = Buffer.from(authTagHex, 'hex');
-        const decipher = crypto.createDecipheriv(algorithm, key, iv);
-        decipher.setAuthTag(authTag);
-        let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-        decrypted += decipher.final('utf8');
-        return decrypted;
+        return decryptPrivateKey(encryptedKey, password);
     }
 
     /**
@@ -0,0 +1,70 @@
+import { CostBasisMethod, PriorityLevel, RiskParameters } from '../types/trading';
+
+// Wrapped SOL mint, used as the quote currency for valuations
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+const parseList = (value?: string): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+// Platform-wide risk limits. Individual users can be given overrides in user_risk_limits.
+export const DEFAULT_RISK_PARAMETERS: RiskParameters = {
+  maxPositionSize: parseFloat(process.env.RISK_MAX_POSITION_SIZE || '100'), // SOL per token
+  maxPortfolioRisk: parseFloat(process.env.RISK_MAX_PORTFOLIO_RISK || '0.25'), // fraction of portfolio per order
+  maxDailyLoss: parseFloat(process.env.RISK_MAX_DAILY_LOSS || '10'), // SOL
+  maxSlippage: parseFloat(process.env.RISK_MAX_SLIPPAGE || '0.05'), // 5%
+  maxPriceImpact: parseFloat(process.env.RISK_MAX_PRICE_IMPACT || '0.03'), // quote's own impact estimate
+  maxPriceDeviation: parseFloat(process.env.RISK_MAX_PRICE_DEVIATION || '0.05'), // quoted price vs oracle, either way
+  minLiquidity: parseFloat(process.env.RISK_MIN_LIQUIDITY_USD || '10000'), // USD
+  blacklistedTokens: parseList(process.env.RISK_BLACKLISTED_TOKENS),
+  maxOrdersPerHour: parseInt(process.env.RISK_MAX_ORDERS_PER_HOUR || '60')
+};
+
+// Virtual SOL credited to a paper-trading account when it is opened or reset
+export const PAPER_STARTING_BALANCE_SOL = parseFloat(process.env.PAPER_STARTING_BALANCE_SOL || '10');
+
+// Lot matching used for realized P&L unless a user picks their own
+export const DEFAULT_COST_BASIS_METHOD = (process.env.COST_BASIS_METHOD || 'FIFO') as CostBasisMethod;
+
+// Jupiter API endpoints; point these at a local stub server in tests
+export const JUPITER_API_URL = process.env.JUPITER_API_URL || 'https://quote-api.jup.ag/v6';
+export const JUPITER_PRICE_API_URL = process.env.JUPITER_PRICE_API_URL || 'https://api.jup.ag/price/v2';
+
+// Priority fee level used when the caller does not pick one, and the most a single
+// transaction may pay in priority fees whatever the level (lamports, 0.005 SOL by default)
+export const DEFAULT_PRIORITY_LEVEL = (process.env.PRIORITY_LEVEL || 'medium') as PriorityLevel;
+export const MAX_PRIORITY_FEE_LAMPORTS = parseInt(process.env.MAX_PRIORITY_FEE_LAMPORTS || '5000000');
+
+// Platform fee taken on every swap. No fee is charged unless a fee account is configured.
+export const PLATFORM_FEE_BPS = parseInt(process.env.PLATFORM_FEE_BPS || '0');
+export const PLATFORM_FEE_ACCOUNT = process.env.PLATFORM_FEE_ACCOUNT || undefined;
+
+// Pairs watched for cross-venue price gaps, as inputMint:outputMint:amount (amount in inputMint units)
+export const ARBITRAGE_PAIRS = parseList(process.env.ARBITRAGE_PAIRS).map(entry => {
+  const [inputMint, outputMint, amount] = entry.split(':');
+  return { inputMint, outputMint, amount: parseFloat(amount) || 1 };
+});
+
+// Jupiter venue labels compared by the arbitrage detector
+export const ARBITRAGE_DEXES = parseList(process.env.ARBITRAGE_DEXES || 'Raydium,Raydium CLMM,Whirlpool,Meteora DLMM');
+
+// Reporting periods accepted by the stats and performance endpoints, in days
+export const PERIOD_DAYS: { [period: string]: number } = {
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+};
+
+// Mints the candle store always polls, on top of those with open orders or recent charts
+export const CANDLE_MINTS = [SOL_MINT, ...parseList(process.env.CANDLE_MINTS)];
+
+// Supported candle timeframes and their length in seconds
+export const TIMEFRAME_SECONDS: { [timeframe: string]: number } = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '1d': 24 * 60 * 60
+};
@@ -1,11 +1,29 @@
 import { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { Pool } from 'pg';
 import winston from 'winston';
+import { PERIOD_DAYS, TIMEFRAME_SECONDS } from '../config/trading';
+import { TradingError } from '../middleware/errorHandler';
+import { BacktestEngine, parseCandlesCsv } from '../services/backtesting/BacktestEngine';
+import { MarketDataService } from '../services/marketData/MarketDataService';
+import { PaperTradingService } from '../services/paperTrading/PaperTradingService';
 import { PortfolioManager } from '../services/portfolio/PortfolioManager';
+import { PortfolioSnapshotService } from '../services/portfolio/PortfolioSnapshotService';
+import { TaxExportService } from '../services/portfolio/TaxExportService';
+import { MEVScanner } from '../services/tradingEngine/MEVScanner';
 import { OrderExecutionService } from '../services/tradingEngine/OrderExecutionService';
 import { StrategyEngine } from '../services/tradingEngine/StrategyEngine';
-import { Order, OrderStatus, OrderType } from '../types/trading';
+import { KeystoreSigner } from '../services/transactions/KeystoreSigner';
+import {
+  AccountMode,
+  CostBasisMethod,
+  Order,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  PortfolioCurrency,
+  TaxExportFormat
+} from '../types/trading';
 
 export class TradingController {
   private pool: Pool;
@@ -13,19 +31,40 @@ export class TradingController {
   private orderExecutionService: OrderExecutionService;
   private portfolioManager: PortfolioManager;
   private strategyEngine: StrategyEngine;
+  private marketDataService: MarketDataService;
+  private backtestEngine: BacktestEngine;
+  private paperTradingService: PaperTradingService;
+  private mevScanner: MEVScanner;
+  private snapshotService: PortfolioSnapshotService;
+  private taxExportService: TaxExportService;
+  private keystoreSigner?: KeystoreSigner;
 
   constructor(
     pool: Pool,
     logger: winston.Logger,
     orderExecutionService: OrderExecutionService,
     portfolioManager: PortfolioManager,
-    strategyEngine: StrategyEngine
+    strategyEngine: StrategyEngine,
+    marketDataService: MarketDataService,
+    backtestEngine: BacktestEngine,
+    paperTradingService: PaperTradingService,
+    mevScanner: MEVScanner,
+    snapshotService: PortfolioSnapshotService,
+    taxExportService: TaxExportService,
+    keystoreSigner?: KeystoreSigner
   ) {
     this.pool = pool;
     this.logger = logger;
     this.orderExecutionService = orderExecutionService;
     this.portfolioManager = portfolioManager;
     this.strategyEngine = strategyEngine;
+    this.marketDataService = marketDataService;
+    this.backtestEngine = backtestEngine;
+    this.paperTradingService = paperTradingService;
+    this.mevScanner = mevScanner;
+    this.snapshotService = snapshotService;
+    this.taxExportService = taxExportService;
+    this.keystoreSigner = keystoreSigner;
   }
 
   /**
@@ -54,11 +93,36 @@ export class TradingController {
         limitPrice,
         stopPrice,
         takeProfitPrice,
-        slippageTolerance = 0.01,
+        trailingStopPercentage,
+        trailingStopAmount,
+        slippageTolerance,
         timeInForce = 'GTC',
-        expiresAt
+        expiresAt,
+        bracket,
+        twap
       } = req.body;
 
+      if (twap && (type !== OrderType.MARKET || timeInForce !== 'GTC')) {
+        res.status(400).json({ error: 'TWAP execution is only supported for GTC market orders' });
+        return;
+      }
+
+      if (bracket && side !== OrderSide.BUY) {
+        res.status(400).json({ error: 'Bracket orders require a buy entry order' });
+        return;
+      }
+
+      if (type === OrderType.TRAILING_STOP) {
+        if (side !== OrderSide.SELL) {
+          res.status(400).json({ error: 'Trailing stops are only supported for sell orders' });
+          return;
+        }
+        if (!trailingStopPercentage && !trailingStopAmount) {
+          res.status(400).json({ error: 'Trailing stop requires trailingStopPercentage or trailingStopAmount' });
+          return;
+        }
+      }
+
       // Create order object
       const order: Order = {
         id: this.generateOrderId(),
@@ -73,27 +137,59 @@ export class TradingController {
         limitPrice: limitPrice ? parseFloat(limitPrice) : undefined,
         stopPrice: stopPrice ? parseFloat(stopPrice) : undefined,
         takeProfitPrice: takeProfitPrice ? parseFloat(takeProfitPrice) : undefined,
-        slippageTolerance: parseFloat(slippageTolerance),
+        trailingStopPercentage: trailingStopPercentage ? parseFloat(trailingStopPercentage) : undefined,
+        trailingStopAmount: trailingStopAmount ? parseFloat(trailingStopAmount) : undefined,
+        // Without an explicit tolerance, use the one recommended from the user's MEV history
+        slippageTolerance: slippageTolerance !== undefined
+          ? parseFloat(slippageTolerance)
+          : await this.mevScanner.getRecommendedSlippage(userId),
         timeInForce,
         createdAt: new Date(),
         updatedAt: new Date(),
-        expiresAt: expiresAt ? new Date(expiresAt) : undefined
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+        isPaper: await this.paperTradingService.isPaperMode(userId),
+        twap: twap ? {
+          slices: parseInt(twap.slices),
+          duration: twap.duration,
+          sizeVariance: twap.sizeVariance !== undefined ? parseFloat(twap.sizeVariance) : undefined,
+          timingVariance: twap.timingVariance !== undefined ? parseFloat(twap.timingVariance) : undefined,
+          maxPriceImpactPct: twap.maxPriceImpactPct !== undefined ? parseFloat(twap.maxPriceImpactPct) : undefined
+        } : undefined
       };
 
-      // Save order to database
-      await this.saveOrder(order);
+      // Save order to database, with take-profit/stop-loss children for bracket orders
+      let children: Order[] | undefined;
+      if (bracket) {
+        children = await this.orderExecutionService.placeBracketOrder(order, {
+          takeProfitPrice: bracket.takeProfitPrice ? parseFloat(bracket.takeProfitPrice) : undefined,
+          stopLossPrice: bracket.stopLossPrice ? parseFloat(bracket.stopLossPrice) : undefined
+        });
+      } else {
+        await this.orderExecutionService.saveOrder(order);
+      }
 
-      // Execute immediately if market order
-      if (type === OrderType.MARKET) {
+      // Execute immediately if market order or immediate-or-cancel / fill-or-kill
+      if (timeInForce === 'IOC' || timeInForce === 'FOK') {
+        const trade = await this.orderExecutionService.executeImmediateOrder(order);
+        res.status(201).json({ order, children, trade });
+      } else if (order.twap) {
+        // First slice goes out now, the scheduler works through the rest
+        const trade = await this.orderExecutionService.executeTwapSlice(order);
+        res.status(201).json({ order, children, trade });
+      } else if (type === OrderType.MARKET) {
         const trade = await this.orderExecutionService.executeMarketOrder(order);
-        res.status(201).json({ order, trade });
+        res.status(201).json({ order, children, trade });
       } else {
-        res.status(201).json({ order });
+        res.status(201).json({ order, children });
       }
 
       this.logger.info(`Order created: ${order.id} by user ${userId}`);
 
     } catch (error) {
+      if (error instanceof TradingError) {
+        res.status(error.statusCode).json({ error: error.message, code: error.code });
+        return;
+      }
       this.logger.error('Error creating order:', error);
       res.status(500).json({ error: 'Failed to create order' });
     }
@@ -151,6 +247,33 @@ export class TradingController {
     }
   }
 
+  /**
+   * Get the status history of an order
+   */
+  async getOrderEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { orderId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const events = await this.orderExecutionService.getOrderEvents(orderId, userId);
+      if (!events) {
+        res.status(404).json({ error: 'Order not found' });
+        return;
+      }
+
+      res.json({ events });
+
+    } catch (error) {
+      this.logger.error('Error getting order events:', error);
+      res.status(500).json({ error: 'Failed to get order events' });
+    }
+  }
+
   /**
    * Get user's trade history
    */
@@ -200,7 +323,11 @@ export class TradingController {
         return;
       }
 
-      const portfolio = await this.portfolioManager.getUserPortfolio(userId);
+      const portfolio = await this.portfolioManager.getUserPortfolio(
+        userId,
+        this.getAccountMode(req),
+        this.getPortfolioCurrency(req)
+      );
       res.json({ portfolio });
 
     } catch (error) {
@@ -220,7 +347,11 @@ export class TradingController {
         return;
       }
 
-      const positions = await this.portfolioManager.getUserPositions(userId);
+      const positions = await this.portfolioManager.getUserPositions(
+        userId,
+        this.getAccountMode(req),
+        this.getPortfolioCurrency(req)
+      );
       res.json({ positions });
 
     } catch (error) {
@@ -242,7 +373,7 @@ export class TradingController {
 
       const { period = '30d' } = req.query;
       
-      const stats = await this.calculateTradingStats(userId, period as string);
+      const stats = await this.calculateTradingStats(userId, period as string, this.getAccountMode(req));
       res.json({ stats });
 
     } catch (error) {
@@ -268,10 +399,15 @@ export class TradingController {
         return;
       }
 
-      const strategy = await this.strategyEngine.createStrategy(userId, req.body);
+      const isPaper = await this.paperTradingService.isPaperMode(userId);
+      const strategy = await this.strategyEngine.createStrategy(userId, { ...req.body, isPaper });
       res.status(201).json({ strategy });
 
     } catch (error) {
+      if (error instanceof TradingError) {
+        res.status(error.statusCode).json({ error: error.message, code: error.code });
+        return;
+      }
       this.logger.error('Error creating strategy:', error);
       res.status(500).json({ error: 'Failed to create strategy' });
     }
@@ -334,6 +470,10 @@ export class TradingController {
       }
 
     } catch (error) {
+      if (error instanceof TradingError) {
+        res.status(error.statusCode).json({ error: error.message, code: error.code });
+        return;
+      }
       this.logger.error('Error updating strategy:', error);
       res.status(500).json({ error: 'Failed to update strategy' });
     }
@@ -398,6 +538,88 @@ export class TradingController {
     }
   }
 
+  /**
+   * Backtest a strategy against a stored dataset or an inline CSV
+   */
+  async runBacktest(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.id;
+      const { strategyId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const strategy = await this.strategyEngine.getStrategy(strategyId, userId);
+      if (!strategy) {
+        res.status(404).json({ error: 'Strategy not found' });
+        return;
+      }
+
+      const { datasetId, csv, initialCapital, feeBps, slippageBps, latencyMs, startDate, endDate } = req.body;
+      const candles = datasetId
+        ? await this.backtestEngine.loadDataset(datasetId, userId)
+        : parseCandlesCsv(csv);
+
+      const result = this.backtestEngine.runBacktest(strategy, candles, {
+        initialCapital: initialCapital !== undefined ? parseFloat(initialCapital) : undefined,
+        feeBps: feeBps !== undefined ? parseFloat(feeBps) : undefined,
+        slippageBps: slippageBps !== undefined ? parseFloat(slippageBps) : undefined,
+        latencyMs: latencyMs !== undefined ? parseInt(latencyMs) : undefined,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined
+      });
+
+      res.json({ result });
+
+    } catch (error) {
+      if (error instanceof TradingError) {
+        res.status(error.statusCode).json({ error: error.message, code: error.code });
+        return;
+      }
+      this.logger.error('Error running backtest:', error);
+      res.status(500).json({ error: 'Failed to run backtest' });
+    }
+  }
+
+  /**
+   * Import a CSV of candles as a backtest dataset
+   */
+  async importBacktestDataset(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { name, inputMint, outputMint, timeframe, csv } = req.body;
+      const dataset = await this.backtestEngine.importDataset(userId, { name, inputMint, outputMint, timeframe, csv });
+      res.status(201).json({ dataset });
+
+    } catch (error) {
+      if (error instanceof TradingError) {
+        res.status(error.statusCode).json({ error: error.message, code: error.code });
+        return;
+      }
+      this.logger.error('Error importing backtest dataset:', error);
+      res.status(500).json({ error: 'Failed to import dataset' });
+    }
+  }
+
   /**
    * Get market data
    */
@@ -410,10 +632,15 @@ export class TradingController {
         return;
       }
 
-      const marketData = await this.orderExecutionService.getMarketData(
+      if (!TIMEFRAME_SECONDS[timeframe as string]) {
+        res.status(400).json({ error: `Timeframe must be one of: ${Object.keys(TIMEFRAME_SECONDS).join(', ')}` });
+        return;
+      }
+
+      const marketData = await this.marketDataService.getMarketData(
         mint as string,
         timeframe as string,
-        parseInt(limit as string)
+        Math.min(parseInt(limit as string) || 100, 1000)
       );
 
       res.json({ marketData });
@@ -441,6 +668,10 @@ export class TradingController {
         outputMint as string,
         parseInt(depth as string)
       );
+      if (!orderBook) {
+        res.status(404).json({ error: 'No price available for this pair' });
+        return;
+      }
 
       res.json({ orderBook });
 
@@ -455,6 +686,12 @@ export class TradingController {
    */
   async getPortfolioPerformance(req: Request, res: Response): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
       const userId = req.user?.id;
       if (!userId) {
         res.status(401).json({ error: 'Unauthorized' });
@@ -462,9 +699,11 @@ export class TradingController {
       }
 
       const { period = '30d' } = req.query;
-      const performance = await this.portfolioManager.getPortfolioPerformance(
+      const performance = await this.snapshotService.getPortfolioPerformance(
         userId,
-        period as string
+        period as string,
+        this.getAccountMode(req),
+        this.getPortfolioCurrency(req)
       );
 
       res.json({ performance });
@@ -475,54 +714,288 @@ export class TradingController {
     }
   }
 
-  // Private helper methods
+  /**
+   * Stream the user's disposals or trades as CSV for tax reporting
+   */
+  async exportTrades(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const mode = this.getAccountMode(req);
+      const format = (req.query.format as TaxExportFormat) || 'csv';
+      const { method, from, to } = req.query;
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="trades-${mode}-${format}.csv"`);
+
+      // Respect backpressure, and stop querying once the client has gone away
+      const write = async (chunk: string): Promise<void> => {
+        if (res.destroyed) {
+          throw new TradingError('Client disconnected during export', 'EXPORT_ABORTED');
+        }
+        if (!res.write(chunk)) {
+          await new Promise<void>(resolve => {
+            res.once('drain', resolve);
+            res.once('close', resolve);
+          });
+        }
+      };
+
+      const rows = await this.taxExportService.export(userId, {
+        mode,
+        format,
+        method: method as CostBasisMethod | undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined
+      }, write);
+
+      this.logger.info(`Exported ${rows} ${format} rows for ${userId}`);
+      res.end();
+
+    } catch (error) {
+      this.logger.error('Error exporting trades:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ error: 'Failed to export trades' });
+    }
+  }
 
   /**
-   * Generate unique order ID
+   * Choose how sales are matched against lots; past disposals are restated
    */
-  private generateOrderId(): string {
-    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  async setCostBasisMethod(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const method = req.body.method as CostBasisMethod;
+      await this.portfolioManager.setCostBasisMethod(userId, method);
+      res.json({ method });
+
+    } catch (error) {
+      this.logger.error('Error setting cost basis method:', error);
+      res.status(500).json({ error: 'Failed to set cost basis method' });
+    }
   }
 
   /**
-   * Save order to database
+   * Get the user's MEV losses and recommended slippage tolerance
    */
-  private async saveOrder(order: Order): Promise<void> {
-    const query = `
-      INSERT INTO orders (
-        id, user_id, user_wallet, type, side, status, input_mint, output_mint,
-        amount, limit_price, stop_price, take_profit_price, slippage_tolerance,
-        time_in_force, created_at, updated_at, expires_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
-    `;
+  async getMevReport(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const period = (req.query.period as string) || '30d';
+      const report = await this.mevScanner.getMevLossReport(userId, period, this.parsePeriodToDays(period));
+      res.json({ report });
+
+    } catch (error) {
+      this.logger.error('Error fetching MEV report:', error);
+      res.status(500).json({ error: 'Failed to fetch MEV report' });
+    }
+  }
+
+  /**
+   * Get the user's trading mode and paper balances
+   */
+  async getPaperAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const [enabled, balances] = await Promise.all([
+        this.paperTradingService.isPaperMode(userId),
+        this.paperTradingService.getBalances(userId)
+      ]);
+
+      res.json({ mode: enabled ? 'paper' : 'live', balances });
+
+    } catch (error) {
+      this.logger.error('Error fetching paper account:', error);
+      res.status(500).json({ error: 'Failed to fetch paper account' });
+    }
+  }
+
+  /**
+   * Switch between paper and live trading
+   */
+  async setPaperMode(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const enabled = Boolean(req.body.enabled);
+      await this.paperTradingService.setPaperMode(userId, enabled);
+
+      this.logger.info(`User ${userId} switched to ${enabled ? 'paper' : 'live'} trading`);
+      res.json({ mode: enabled ? 'paper' : 'live' });
+
+    } catch (error) {
+      this.logger.error('Error setting paper mode:', error);
+      res.status(500).json({ error: 'Failed to set trading mode' });
+    }
+  }
+
+  /**
+   * Store the private key live orders for the user's wallet are signed with
+   */
+  async setTradingKey(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.id;
+      const wallet = req.user?.wallet;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      if (!this.keystoreSigner) {
+        res.status(503).json({ error: 'Live trading is not configured on this server' });
+        return;
+      }
+      if (!wallet) {
+        res.status(400).json({ error: 'Account has no wallet' });
+        return;
+      }
+
+      await this.keystoreSigner.storeKey(userId, wallet, req.body.privateKey);
+      res.json({ wallet, live: true });
+
+    } catch (error) {
+      if (error instanceof TradingError) {
+        res.status(error.statusCode).json({ error: error.message, code: error.code });
+        return;
+      }
+      this.logger.error('Error storing trading key:', error);
+      res.status(500).json({ error: 'Failed to store trading key' });
+    }
+  }
+
+  /**
+   * Remove the user's stored trading key
+   */
+  async deleteTradingKey(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      if (!this.keystoreSigner) {
+        res.status(503).json({ error: 'Live trading is not configured on this server' });
+        return;
+      }
+
+      const deleted = await this.keystoreSigner.deleteKey(userId);
+      if (!deleted) {
+        res.status(404).json({ error: 'No trading key stored' });
+        return;
+      }
+      res.json({ deleted: true });
+
+    } catch (error) {
+      this.logger.error('Error deleting trading key:', error);
+      res.status(500).json({ error: 'Failed to delete trading key' });
+    }
+  }
+
+  /**
+   * Reset the user's paper balances to the starting balance
+   */
+  async resetPaperAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
 
-    const values = [
-      order.id,
-      order.userId,
-      order.userWallet,
-      order.type,
-      order.side,
-      order.status,
-      order.inputMint,
-      order.outputMint,
-      order.amount,
-      order.limitPrice,
-      order.stopPrice,
-      order.takeProfitPrice,
-      order.slippageTolerance,
-      order.timeInForce,
-      order.createdAt,
-      order.updatedAt,
-      order.expiresAt
-    ];
-
-    await this.pool.query(query, values);
+      const { startingBalance } = req.body;
+      await this.paperTradingService.resetAccount(
+        userId,
+        startingBalance !== undefined ? parseFloat(startingBalance) : undefined
+      );
+
+      const balances = await this.paperTradingService.getBalances(userId);
+      res.json({ balances });
+
+    } catch (error) {
+      this.logger.error('Error resetting paper account:', error);
+      res.status(500).json({ error: 'Failed to reset paper account' });
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Paper and live results are reported separately; live is the default
+   */
+  private getAccountMode(req: Request): AccountMode {
+    return req.query.mode === 'paper' ? 'paper' : 'live';
+  }
+
+  private getPortfolioCurrency(req: Request): PortfolioCurrency {
+    return req.query.currency === 'USD' ? 'USD' : 'SOL';
+  }
+
+  /**
+   * Generate unique order ID
+   */
+  private generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
    * Calculate trading statistics for a user
    */
-  private async calculateTradingStats(userId: string, period: string): Promise<any> {
+  private async calculateTradingStats(userId: string, period: string, mode: AccountMode): Promise<any> {
     const periodDays = this.parsePeriodToDays(period);
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - periodDays);
@@ -539,10 +1012,10 @@ export class TradingController {
         SUM(fees) as total_fees,
         SUM(volume_usd) as total_volume
       FROM trades 
-      WHERE user_id = $1 AND executed_at >= $2
+      WHERE user_id = $1 AND executed_at >= $2 AND is_simulated = $3
     `;
 
-    const result = await this.pool.query(query, [userId, startDate]);
+    const result = await this.pool.query(query, [userId, startDate, mode === 'paper']);
     const stats = result.rows[0];
 
     return {
@@ -556,7 +1029,8 @@ export class TradingController {
       maxLoss: parseFloat(stats.max_loss) || 0,
       totalFees: parseFloat(stats.total_fees) || 0,
       totalVolume: parseFloat(stats.total_volume) || 0,
-      period
+      period,
+      mode
     };
   }
 
@@ -564,33 +1038,98 @@ export class TradingController {
    * Parse period string to number of days
    */
   private parsePeriodToDays(period: string): number {
-    const periodMap: { [key: string]: number } = {
-      '1d': 1,
-      '7d': 7,
-      '30d': 30,
-      '90d': 90,
-      '1y': 365
-    };
-
-    return periodMap[period] || 30;
+    return PERIOD_DAYS[period] || 30;
   }
 
   // Validator middleware methods (to be used in routes)
   static createOrderValidators = [
-    body('type').isIn(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT']).withMessage('Invalid order type'),
-    body('side').isIn(['BUY', 'SELL']).withMessage('Invalid order side'),
-    body('inputMint').isString().notEmpty().withMessage('Input mint is required'),
-    body('outputMint').isString().notEmpty().withMessage('Output mint is required'),
-    body('amount').isNumeric().isFloat({ min: 0 }).withMessage('Amount must be a positive number'),
-    body('limitPrice').optional().isNumeric().withMessage('Limit price must be a number'),
-    body('stopPrice').optional().isNumeric().withMessage('Stop price must be a number'),
-    body('slippageTolerance').optional().isFloat({ min: 0, max: 1 }).withMessage('Slippage tolerance must be between 0 and 1')
+    body('type').isIn(Object.values(OrderType)).withMessage(`Order type must be one of ${Object.values(OrderType).join(', ')}`),
+    body('side').isIn(Object.values(OrderSide)).withMessage(`Order side must be one of ${Object.values(OrderSide).join(', ')}`),
+    body('inputMint').isString().isLength({ min: 32, max: 44 }).withMessage('Invalid input mint address'),
+    body('outputMint').isString().isLength({ min: 32, max: 44 }).withMessage('Invalid output mint address'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Amount must be a positive number'),
+    body('limitPrice').if(body('type').equals(OrderType.LIMIT)).exists().withMessage('Limit orders require a limitPrice'),
+    body('stopPrice').if(body('type').equals(OrderType.STOP_LOSS)).exists().withMessage('Stop-loss orders require a stopPrice'),
+    body('takeProfitPrice').if(body('type').equals(OrderType.TAKE_PROFIT)).exists().withMessage('Take-profit orders require a takeProfitPrice'),
+    body('limitPrice').optional().isFloat({ gt: 0 }).withMessage('Limit price must be a positive number'),
+    body('stopPrice').optional().isFloat({ gt: 0 }).withMessage('Stop price must be a positive number'),
+    body('takeProfitPrice').optional().isFloat({ gt: 0 }).withMessage('Take-profit price must be a positive number'),
+    body('trailingStopPercentage').optional().isFloat({ gt: 0, lt: 100 }).withMessage('Trailing stop percentage must be between 0 and 100'),
+    body('trailingStopAmount').optional().isFloat({ gt: 0 }).withMessage('Trailing stop amount must be positive'),
+    body('bracket').optional().custom(value => value.takeProfitPrice || value.stopLossPrice).withMessage('Bracket requires takeProfitPrice or stopLossPrice'),
+    body('bracket.takeProfitPrice').optional().isFloat({ gt: 0 }).withMessage('Take-profit price must be positive'),
+    body('bracket.stopLossPrice').optional().isFloat({ gt: 0 }).withMessage('Stop-loss price must be positive'),
+    body('slippageTolerance').optional().isFloat({ min: 0, max: 1 }).withMessage('Slippage tolerance must be between 0 and 1'),
+    body('twap.slices').if(body('twap').exists()).isInt({ min: 2, max: 100 }).withMessage('TWAP slices must be between 2 and 100'),
+    body('twap.duration').if(body('twap').exists()).matches(/^\d+[mhdw]$/).withMessage('TWAP duration must look like 30m, 4h or 1d'),
+    body('twap.sizeVariance').optional().isFloat({ min: 0, max: 0.9 }).withMessage('TWAP size variance must be between 0 and 0.9'),
+    body('twap.timingVariance').optional().isFloat({ min: 0, max: 0.9 }).withMessage('TWAP timing variance must be between 0 and 0.9'),
+    body('twap.maxPriceImpactPct').optional().isFloat({ gt: 0, max: 1 }).withMessage('TWAP max price impact must be between 0 and 1'),
+    body('timeInForce').optional().isIn(['GTC', 'IOC', 'FOK']).withMessage('Invalid time in force'),
+    body('expiresAt').optional().isISO8601().withMessage('Invalid expiry date')
+  ];
+
+  static backtestValidators = [
+    body('datasetId').optional().isUUID().withMessage('Invalid dataset ID'),
+    body('csv').if(body('datasetId').not().exists()).isString().notEmpty().withMessage('Either datasetId or csv is required'),
+    body('initialCapital').optional().isFloat({ gt: 0 }).withMessage('Initial capital must be positive'),
+    body('feeBps').optional().isFloat({ min: 0, max: 1000 }).withMessage('Fee must be between 0 and 1000 bps'),
+    body('slippageBps').optional().isFloat({ min: 0, max: 5000 }).withMessage('Slippage must be between 0 and 5000 bps'),
+    body('latencyMs').optional().isInt({ min: 0 }).withMessage('Latency must be a non-negative integer'),
+    body('startDate').optional().isISO8601().withMessage('Invalid start date'),
+    body('endDate').optional().isISO8601().withMessage('Invalid end date')
+  ];
+
+  static importDatasetValidators = [
+    body('name').isString().notEmpty().withMessage('Dataset name is required'),
+    body('csv').isString().notEmpty().withMessage('CSV content is required'),
+    body('timeframe').optional().isString()
   ];
 
   static createStrategyValidators = [
     body('name').isString().notEmpty().withMessage('Strategy name is required'),
-    body('type').isIn(['DCA', 'GRID', 'MOMENTUM', 'MEAN_REVERSION']).withMessage('Invalid strategy type'),
+    body('type').isIn(['DCA', 'GRID', 'ARBITRAGE', 'MOMENTUM', 'MEAN_REVERSION']).withMessage('Invalid strategy type'),
+    body('inputMint').isString().notEmpty().withMessage('Input mint is required'),
+    body('outputMint').isString().notEmpty().withMessage('Output mint is required'),
     body('parameters').isObject().withMessage('Strategy parameters must be an object'),
     body('active').optional().isBoolean().withMessage('Active must be a boolean')
   ];
+
+  static orderListValidators = [
+    query('status').optional().isIn(Object.values(OrderStatus)).withMessage(`Status must be one of ${Object.values(OrderStatus).join(', ')}`)
+  ];
+
+  static accountModeValidators = [
+    query('mode').optional().isIn(['live', 'paper']).withMessage('Mode must be live or paper'),
+    query('currency').optional().isIn(['SOL', 'USD']).withMessage('Currency must be SOL or USD')
+  ];
+
+  static performanceValidators = [
+    query('period').optional().isIn(Object.keys(PERIOD_DAYS)).withMessage(`Period must be one of ${Object.keys(PERIOD_DAYS).join(', ')}`),
+    ...TradingController.accountModeValidators
+  ];
+
+  static exportTradesValidators = [
+    query('format').optional().isIn(['csv', 'koinly', 'cointracker']).withMessage('Format must be csv, koinly or cointracker'),
+    query('method').optional().isIn(['FIFO', 'LIFO', 'AVERAGE']).withMessage('Method must be FIFO, LIFO or AVERAGE'),
+    query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date'),
+    ...TradingController.accountModeValidators
+  ];
+
+  static setCostBasisMethodValidators = [
+    body('method').isIn(['FIFO', 'LIFO', 'AVERAGE']).withMessage('Method must be FIFO, LIFO or AVERAGE')
+  ];
+
+  static setPaperModeValidators = [
+    body('enabled').isBoolean().withMessage('Enabled must be a boolean')
+  ];
+
+  static setTradingKeyValidators = [
+    body('privateKey').isString().matches(/^[1-9A-HJ-NP-Za-km-z]{64,100}$/).withMessage('Invalid private key format')
+  ];
+
+  static resetPaperAccountValidators = [
+    body('startingBalance').optional().isFloat({ gt: 0 }).withMessage('Starting balance must be positive')
+  ];
 }
\ No newline at end of file
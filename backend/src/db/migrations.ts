@@ -0,0 +1,429 @@
+import { Pool } from 'pg';
+import winston from 'winston';
+
+interface Migration {
+  id: string;
+  sql: string;
+}
+
+/**
+ * Trading engine schema migrations, applied in order.
+ * Append new entries to the end - never edit a migration that has already shipped.
+ */
+const migrations: Migration[] = [
+  {
+    id: '001_user_risk_limits',
+    sql: `
+      CREATE TABLE IF NOT EXISTS user_risk_limits (
+        user_id TEXT PRIMARY KEY,
+        max_position_size NUMERIC,
+        max_portfolio_risk NUMERIC,
+        max_daily_loss NUMERIC,
+        max_slippage NUMERIC,
+        min_liquidity NUMERIC,
+        blacklisted_tokens TEXT[],
+        max_orders_per_hour INTEGER,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_orders_user_created_at ON orders(user_id, created_at);
+    `
+  },
+  {
+    id: '002_strategies',
+    sql: `
+      CREATE TABLE IF NOT EXISTS strategies (
+        id UUID PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        type TEXT NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT FALSE,
+        input_mint TEXT NOT NULL,
+        output_mint TEXT NOT NULL,
+        parameters JSONB NOT NULL DEFAULT '{}',
+        state JSONB NOT NULL DEFAULT '{}',
+        total_trades INTEGER NOT NULL DEFAULT 0,
+        win_rate NUMERIC NOT NULL DEFAULT 0,
+        total_pnl NUMERIC NOT NULL DEFAULT 0,
+        next_run_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_executed_at TIMESTAMPTZ
+      );
+      CREATE INDEX IF NOT EXISTS idx_strategies_user_id ON strategies(user_id);
+      CREATE INDEX IF NOT EXISTS idx_strategies_due ON strategies(next_run_at) WHERE is_active;
+
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS strategy_id UUID;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS is_automated BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS parent_order_id TEXT;
+      CREATE INDEX IF NOT EXISTS idx_orders_strategy_id ON orders(strategy_id);
+    `
+  },
+  {
+    id: '003_grid_strategy',
+    sql: `
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS grid_level INTEGER;
+
+      CREATE TABLE IF NOT EXISTS grid_cycles (
+        id SERIAL PRIMARY KEY,
+        strategy_id UUID NOT NULL,
+        grid_level INTEGER NOT NULL,
+        buy_order_id TEXT NOT NULL,
+        sell_order_id TEXT NOT NULL UNIQUE,
+        buy_price NUMERIC NOT NULL,
+        sell_price NUMERIC NOT NULL,
+        cost NUMERIC NOT NULL,
+        proceeds NUMERIC NOT NULL,
+        profit NUMERIC NOT NULL,
+        completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_grid_cycles_strategy_id ON grid_cycles(strategy_id);
+    `
+  },
+  {
+    id: '004_candle_datasets',
+    sql: `
+      CREATE TABLE IF NOT EXISTS candle_datasets (
+        id UUID PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        input_mint TEXT,
+        output_mint TEXT,
+        timeframe TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_candle_datasets_user_id ON candle_datasets(user_id);
+
+      CREATE TABLE IF NOT EXISTS candle_dataset_rows (
+        dataset_id UUID NOT NULL REFERENCES candle_datasets(id) ON DELETE CASCADE,
+        timestamp TIMESTAMPTZ NOT NULL,
+        open NUMERIC NOT NULL,
+        high NUMERIC NOT NULL,
+        low NUMERIC NOT NULL,
+        close NUMERIC NOT NULL,
+        volume NUMERIC NOT NULL DEFAULT 0,
+        PRIMARY KEY (dataset_id, timestamp)
+      );
+    `
+  },
+  {
+    id: '005_trailing_stop',
+    sql: `
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS trailing_stop_percentage NUMERIC;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS trailing_stop_amount NUMERIC;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS high_water_mark NUMERIC;
+    `
+  },
+  {
+    id: '006_order_fills_and_expiry',
+    sql: `
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS filled_amount NUMERIC;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS executed_at TIMESTAMPTZ;
+      CREATE INDEX IF NOT EXISTS idx_orders_status_expires_at ON orders(status, expires_at);
+    `
+  },
+  {
+    id: '007_twap_execution',
+    sql: `
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS twap_params JSONB;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS twap_state JSONB;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS next_slice_at TIMESTAMPTZ;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS average_fill_price NUMERIC;
+    `
+  },
+  {
+    id: '008_order_leases',
+    sql: `
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS locked_by TEXT;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+      CREATE INDEX IF NOT EXISTS idx_orders_status_locked_until ON orders(status, locked_until);
+    `
+  },
+  {
+    id: '009_order_events',
+    sql: `
+      CREATE TABLE IF NOT EXISTS order_events (
+        id BIGSERIAL PRIMARY KEY,
+        order_id TEXT NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        reason TEXT,
+        quote JSONB,
+        signature TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id, created_at);
+    `
+  },
+  {
+    id: '010_paper_trading',
+    sql: `
+      CREATE TABLE IF NOT EXISTS paper_accounts (
+        user_id TEXT PRIMARY KEY,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS paper_balances (
+        user_id TEXT NOT NULL,
+        mint TEXT NOT NULL,
+        amount NUMERIC NOT NULL DEFAULT 0,
+        cost_basis NUMERIC NOT NULL DEFAULT 0,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (user_id, mint)
+      );
+
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS is_paper BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE strategies ADD COLUMN IF NOT EXISTS is_paper BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS is_simulated BOOLEAN NOT NULL DEFAULT FALSE;
+      CREATE INDEX IF NOT EXISTS idx_trades_user_simulated ON trades(user_id, is_simulated, executed_at);
+    `
+  },
+  {
+    id: '011_arbitrage_opportunities',
+    sql: `
+      CREATE TABLE IF NOT EXISTS arbitrage_opportunities (
+        id UUID PRIMARY KEY,
+        input_mint TEXT NOT NULL,
+        output_mint TEXT NOT NULL,
+        symbol TEXT,
+        buy_price NUMERIC NOT NULL,
+        sell_price NUMERIC NOT NULL,
+        price_difference NUMERIC NOT NULL,
+        profit_percentage NUMERIC NOT NULL,
+        buy_dex TEXT NOT NULL,
+        sell_dex TEXT NOT NULL,
+        max_amount NUMERIC NOT NULL,
+        estimated_profit NUMERIC NOT NULL,
+        estimated_gas NUMERIC NOT NULL,
+        net_profit NUMERIC NOT NULL,
+        liquidity NUMERIC,
+        slippage NUMERIC,
+        time_to_execute INTEGER,
+        detected_at TIMESTAMPTZ NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_arbitrage_opportunities_pair ON arbitrage_opportunities(input_mint, output_mint, detected_at);
+    `
+  },
+  {
+    id: '012_trade_mev_analysis',
+    sql: `
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS mev_status TEXT;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS mev_loss NUMERIC;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS mev_attacker TEXT;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS mev_front_signature TEXT;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS mev_back_signature TEXT;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS mev_checked_at TIMESTAMPTZ;
+      CREATE INDEX IF NOT EXISTS idx_trades_mev_unchecked ON trades(executed_at) WHERE mev_checked_at IS NULL;
+    `
+  },
+  {
+    id: '013_position_lots',
+    sql: `
+      CREATE TABLE IF NOT EXISTS position_lots (
+        id BIGSERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        mint TEXT NOT NULL,
+        is_paper BOOLEAN NOT NULL DEFAULT FALSE,
+        trade_id TEXT,
+        quantity NUMERIC NOT NULL,
+        remaining NUMERIC NOT NULL,
+        cost_sol NUMERIC NOT NULL,
+        cost_usd NUMERIC,
+        acquired_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_position_lots_open ON position_lots(user_id, is_paper, mint, acquired_at) WHERE remaining > 0;
+
+      CREATE TABLE IF NOT EXISTS lot_disposals (
+        id BIGSERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        mint TEXT NOT NULL,
+        is_paper BOOLEAN NOT NULL DEFAULT FALSE,
+        trade_id TEXT,
+        lot_id BIGINT REFERENCES position_lots(id) ON DELETE SET NULL,
+        quantity NUMERIC NOT NULL,
+        cost_sol NUMERIC NOT NULL,
+        cost_usd NUMERIC,
+        proceeds_sol NUMERIC NOT NULL,
+        proceeds_usd NUMERIC,
+        acquired_at TIMESTAMPTZ,
+        disposed_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_lot_disposals_user ON lot_disposals(user_id, is_paper, disposed_at);
+
+      CREATE TABLE IF NOT EXISTS portfolio_settings (
+        user_id TEXT PRIMARY KEY,
+        cost_basis_method TEXT NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS value_sol NUMERIC;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS volume_usd NUMERIC;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS profit_loss NUMERIC;
+    `
+  },
+  {
+    id: '014_portfolio_snapshots',
+    sql: `
+      CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+        id BIGSERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        is_paper BOOLEAN NOT NULL DEFAULT FALSE,
+        total_value NUMERIC NOT NULL,
+        total_invested NUMERIC NOT NULL,
+        available_balance NUMERIC NOT NULL,
+        sol_price_usd NUMERIC,
+        positions JSONB NOT NULL DEFAULT '[]',
+        taken_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_user ON portfolio_snapshots(user_id, is_paper, taken_at);
+    `
+  },
+  {
+    id: '015_candles',
+    sql: `
+      CREATE TABLE IF NOT EXISTS candles (
+        mint TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        bucket_start TIMESTAMPTZ NOT NULL,
+        open NUMERIC NOT NULL,
+        high NUMERIC NOT NULL,
+        low NUMERIC NOT NULL,
+        close NUMERIC NOT NULL,
+        volume NUMERIC NOT NULL DEFAULT 0,
+        trade_count INTEGER NOT NULL DEFAULT 0,
+        first_tick_at TIMESTAMPTZ NOT NULL,
+        last_tick_at TIMESTAMPTZ NOT NULL,
+        source TEXT NOT NULL,
+        PRIMARY KEY (mint, timeframe, bucket_start)
+      );
+
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS in_candles BOOLEAN NOT NULL DEFAULT FALSE;
+      CREATE INDEX IF NOT EXISTS idx_trades_pending_candles ON trades(executed_at) WHERE NOT in_candles;
+    `
+  },
+  {
+    id: '016_order_event_notifications',
+    sql: `
+      CREATE OR REPLACE FUNCTION notify_order_event() RETURNS TRIGGER AS $$
+      BEGIN
+        PERFORM pg_notify('order_events', json_build_object(
+          'orderId', NEW.order_id,
+          'userId', (SELECT user_id FROM orders WHERE id = NEW.order_id),
+          'status', NEW.to_status,
+          'signature', NEW.signature
+        )::TEXT);
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS order_events_notify ON order_events;
+      CREATE TRIGGER order_events_notify AFTER INSERT ON order_events
+        FOR EACH ROW EXECUTE FUNCTION notify_order_event();
+    `
+  },
+  {
+    id: '017_price_impact_guard',
+    sql: `
+      ALTER TABLE user_risk_limits ADD COLUMN IF NOT EXISTS max_price_impact NUMERIC;
+      ALTER TABLE user_risk_limits ADD COLUMN IF NOT EXISTS max_price_deviation NUMERIC;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS reference_price NUMERIC;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS expected_slippage NUMERIC;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS price_impact NUMERIC;
+    `
+  },
+  {
+    id: '018_pending_transactions',
+    sql: `
+      CREATE TABLE IF NOT EXISTS pending_transactions (
+        signature TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        reference TEXT,
+        wallet TEXT,
+        raw_transaction TEXT NOT NULL,
+        last_valid_block_height BIGINT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        replaces TEXT,
+        error TEXT,
+        slot BIGINT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_pending_transactions_open ON pending_transactions(created_at)
+        WHERE status IN ('pending', 'processed', 'confirmed');
+    `
+  },
+  {
+    id: '019_wallet_keys',
+    sql: `
+      CREATE TABLE IF NOT EXISTS wallet_keys (
+        user_id TEXT PRIMARY KEY,
+        wallet TEXT NOT NULL UNIQUE,
+        encrypted_key TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `
+  },
+  {
+    id: '020_pending_transactions_reference',
+    sql: `
+      CREATE INDEX IF NOT EXISTS idx_pending_transactions_reference ON pending_transactions(reference)
+        WHERE reference IS NOT NULL;
+    `
+  },
+  {
+    id: '021_order_last_checked_at',
+    sql: `
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ;
+    `
+  },
+  {
+    id: '022_trade_expected_output',
+    sql: `
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS expected_output_amount NUMERIC;
+    `
+  },
+  {
+    id: '023_strategy_activated_at',
+    sql: `
+      ALTER TABLE strategies ADD COLUMN IF NOT EXISTS activated_at TIMESTAMPTZ;
+    `
+  }
+];
+
+/**
+ * Apply any migrations that have not been recorded in schema_migrations yet
+ */
+export async function runMigrations(pool: Pool, logger: winston.Logger): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id TEXT PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  const applied = await pool.query('SELECT id FROM schema_migrations');
+  const appliedIds = new Set(applied.rows.map((row: any) => row.id));
+
+  for (const migration of migrations) {
+    if (appliedIds.has(migration.id)) continue;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.sql);
+      await client.query('INSERT INTO schema_migrations (id) VALUES ($1)', [migration.id]);
+      await client.query('COMMIT');
+      logger.info(`Applied migration ${migration.id}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error(`Migration ${migration.id} failed:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
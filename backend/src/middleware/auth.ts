@@ -32,32 +32,38 @@ export class AuthMiddleware {
         return;
       }
 
-      const token = authHeader.substring(7);
-      
-      try {
-        const decoded = jwt.verify(token, this.jwtSecret) as any;
-        
-        // Fetch user from database
-        const userQuery = 'SELECT id, email, wallet, role FROM users WHERE id = $1 AND active = true';
-        const userResult = await this.pool.query(userQuery, [decoded.userId]);
-        
-        if (userResult.rows.length === 0) {
-          res.status(401).json({ error: 'User not found or inactive' });
-          return;
-        }
-
-        req.user = userResult.rows[0];
-        next();
-      } catch (jwtError) {
-        res.status(401).json({ error: 'Invalid token' });
+      const user = await this.verifyToken(authHeader.substring(7));
+      if (!user) {
+        res.status(401).json({ error: 'Invalid token or inactive user' });
         return;
       }
+
+      req.user = user;
+      next();
     } catch (error) {
       console.error('Authentication error:', error);
       res.status(500).json({ error: 'Authentication failed' });
     }
   };
 
+  /**
+   * Resolve a JWT to an active user, or null if the token is invalid or the user is inactive.
+   * Also used to authenticate Socket.IO connections.
+   */
+  verifyToken = async (token: string): Promise<AuthenticatedRequest['user'] | null> => {
+    let decoded: any;
+    try {
+      decoded = jwt.verify(token, this.jwtSecret);
+    } catch (jwtError) {
+      return null;
+    }
+
+    // Fetch user from database
+    const userQuery = 'SELECT id, email, wallet, role FROM users WHERE id = $1 AND active = true';
+    const userResult = await this.pool.query(userQuery, [decoded.userId]);
+    return userResult.rows[0] || null;
+  };
+
   /**
    * Require specific roles
    */
@@ -225,4 +225,13 @@ export const throwAuthError = (message?: string): never => {
 };
 
 export const throwAuthorizationError = (message?: string): never => {
-  throw new Auth
\ No newline at end of file
+  throw new AuthorizationError(message);
+};
+
+export const throwNotFoundError = (message?: string): never => {
+  throw new NotFoundError(message);
+};
+
+export const throwTradingError = (message: string, code?: string): never => {
+  throw new TradingError(message, code);
+};
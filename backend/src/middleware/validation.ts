@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult, ValidationChain } from 'express-validator';
+import { PERIOD_DAYS } from '../config/trading';
 
 export class ValidationMiddleware {
   /**
@@ -17,69 +18,6 @@ export class ValidationMiddleware {
     next();
   };
 
-  /**
-   * Order validation rules
-   */
-  static validateCreateOrder: ValidationChain[] = [
-    body('type')
-      .isIn(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'])
-      .withMessage('Invalid order type'),
-    
-    body('side')
-      .isIn(['BUY', 'SELL'])
-      .withMessage('Invalid order side'),
-    
-    body('inputMint')
-      .isString()
-      .notEmpty()
-      .isLength({ min: 32, max: 44 })
-      .withMessage('Invalid input mint address'),
-    
-    body('outputMint')
-      .isString()
-      .notEmpty()
-      .isLength({ min: 32, max: 44 })
-      .withMessage('Invalid output mint address'),
-    
-    body('amount')
-      .isNumeric()
-      .isFloat({ min: 0.000001 })
-      .withMessage('Amount must be a positive number greater than 0.000001'),
-    
-    body('limitPrice')
-      .optional()
-      .isNumeric()
-      .isFloat({ min: 0 })
-      .withMessage('Limit price must be a positive number'),
-    
-    body('stopPrice')
-      .optional()
-      .isNumeric()
-      .isFloat({ min: 0 })
-      .withMessage('Stop price must be a positive number'),
-    
-    body('takeProfitPrice')
-      .optional()
-      .isNumeric()
-      .isFloat({ min: 0 })
-      .withMessage('Take profit price must be a positive number'),
-    
-    body('slippageTolerance')
-      .optional()
-      .isFloat({ min: 0, max: 1 })
-      .withMessage('Slippage tolerance must be between 0 and 1'),
-    
-    body('timeInForce')
-      .optional()
-      .isIn(['GTC', 'IOC', 'FOK'])
-      .withMessage('Invalid time in force'),
-    
-    body('expiresAt')
-      .optional()
-      .isISO8601()
-      .withMessage('Invalid expiration date format')
-  ];
-
   /**
    * Strategy validation rules
    */
@@ -196,8 +134,8 @@ export class ValidationMiddleware {
     
     query('period')
       .optional()
-      .isIn(['1d', '7d', '30d', '90d', '1y'])
-      .withMessage('Period must be one of: 1d, 7d, 30d, 90d, 1y')
+      .isIn(Object.keys(PERIOD_DAYS))
+      .withMessage(`Period must be one of: ${Object.keys(PERIOD_DAYS).join(', ')}`)
   ];
 
   /**
@@ -317,7 +255,6 @@ export class ValidationMiddleware {
 // Export commonly used validation chains
 export const {
   handleValidationErrors,
-  validateCreateOrder,
   validateCreateStrategy,
   validateUserRegistration,
   validateUserLogin,
@@ -0,0 +1,19 @@
+import express, { Router } from 'express';
+import { TradingController } from '../controllers/TradingController';
+import { AuthMiddleware } from '../middleware/auth';
+import { tradingLimiter } from '../middleware/rateLimit';
+import { handleValidationErrors, validateOrderId } from '../middleware/validation';
+
+/**
+ * Order history under /api/orders
+ */
+export const createOrderRoutes = (controller: TradingController, authMiddleware: AuthMiddleware): Router => {
+  const router = express.Router();
+
+  router.use(authMiddleware.authenticate, tradingLimiter);
+
+  router.get('/:orderId/events', validateOrderId, handleValidationErrors,
+    (req, res) => controller.getOrderEvents(req, res));
+
+  return router;
+};
@@ -0,0 +1,25 @@
+import express, { Router } from 'express';
+import { TradingController } from '../controllers/TradingController';
+import { AuthMiddleware } from '../middleware/auth';
+import { tradingLimiter } from '../middleware/rateLimit';
+import { handleValidationErrors } from '../middleware/validation';
+
+/**
+ * Holdings, performance and cost-basis settings under /api/portfolio
+ */
+export const createPortfolioRoutes = (controller: TradingController, authMiddleware: AuthMiddleware): Router => {
+  const router = express.Router();
+
+  router.use(authMiddleware.authenticate, tradingLimiter);
+
+  router.get('/', TradingController.accountModeValidators, handleValidationErrors,
+    (req, res) => controller.getPortfolio(req, res));
+  router.get('/positions', TradingController.accountModeValidators, handleValidationErrors,
+    (req, res) => controller.getPositions(req, res));
+  router.get('/performance', TradingController.performanceValidators,
+    (req, res) => controller.getPortfolioPerformance(req, res));
+  router.put('/cost-basis', TradingController.setCostBasisMethodValidators,
+    (req, res) => controller.setCostBasisMethod(req, res));
+
+  return router;
+};
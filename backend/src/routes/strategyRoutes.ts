@@ -0,0 +1,19 @@
+import express, { Router } from 'express';
+import { TradingController } from '../controllers/TradingController';
+import { AuthMiddleware } from '../middleware/auth';
+import { tradingLimiter } from '../middleware/rateLimit';
+import { validateStrategyId } from '../middleware/validation';
+
+/**
+ * Strategy backtests under /api/strategies
+ */
+export const createStrategyRoutes = (controller: TradingController, authMiddleware: AuthMiddleware): Router => {
+  const router = express.Router();
+
+  router.use(authMiddleware.authenticate, tradingLimiter);
+
+  router.post('/:strategyId/backtest', validateStrategyId, TradingController.backtestValidators,
+    (req, res) => controller.runBacktest(req, res));
+
+  return router;
+};
@@ -0,0 +1,18 @@
+import express, { Router } from 'express';
+import { TradingController } from '../controllers/TradingController';
+import { AuthMiddleware } from '../middleware/auth';
+import { tradingLimiter } from '../middleware/rateLimit';
+
+/**
+ * Trade history exports under /api/trades
+ */
+export const createTradeRoutes = (controller: TradingController, authMiddleware: AuthMiddleware): Router => {
+  const router = express.Router();
+
+  router.use(authMiddleware.authenticate, tradingLimiter);
+
+  router.get('/export', TradingController.exportTradesValidators,
+    (req, res) => controller.exportTrades(req, res));
+
+  return router;
+};
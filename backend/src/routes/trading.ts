@@ -0,0 +1,19 @@
+import { Express } from 'express';
+import { TradingController } from '../controllers/TradingController';
+import { AuthMiddleware } from '../middleware/auth';
+import { createOrderRoutes } from './orderRoutes';
+import { createPortfolioRoutes } from './portfolioRoutes';
+import { createStrategyRoutes } from './strategyRoutes';
+import { createTradeRoutes } from './tradeRoutes';
+import { createTradingRoutes } from './tradingRoutes';
+
+/**
+ * Mount the trading API. Every route requires a JWT.
+ */
+export const mountTradingApi = (app: Express, controller: TradingController, authMiddleware: AuthMiddleware): void => {
+  app.use('/api/trading', createTradingRoutes(controller, authMiddleware));
+  app.use('/api/portfolio', createPortfolioRoutes(controller, authMiddleware));
+  app.use('/api/trades', createTradeRoutes(controller, authMiddleware));
+  app.use('/api/strategies', createStrategyRoutes(controller, authMiddleware));
+  app.use('/api/orders', createOrderRoutes(controller, authMiddleware));
+};
@@ -0,0 +1,68 @@
+import express, { Router } from 'express';
+import { TradingController } from '../controllers/TradingController';
+import { AuthMiddleware } from '../middleware/auth';
+import { orderLimiter, strictLimiter, tradingLimiter } from '../middleware/rateLimit';
+import {
+  handleValidationErrors,
+  validateOrderId,
+  validatePagination,
+  validateStrategyId,
+  validateTradingPair
+} from '../middleware/validation';
+
+/**
+ * Orders, trades, strategies, backtest datasets, market data and paper trading under /api/trading
+ */
+export const createTradingRoutes = (controller: TradingController, authMiddleware: AuthMiddleware): Router => {
+  const router = express.Router();
+
+  router.use(authMiddleware.authenticate, tradingLimiter);
+
+  // Orders
+  router.post('/orders', orderLimiter, TradingController.createOrderValidators,
+    (req, res) => controller.createOrder(req, res));
+  router.get('/orders', validatePagination, TradingController.orderListValidators, handleValidationErrors,
+    (req, res) => controller.getUserOrders(req, res));
+  router.delete('/orders/:orderId', validateOrderId, handleValidationErrors,
+    (req, res) => controller.cancelOrder(req, res));
+
+  // Trades
+  router.get('/trades', validatePagination, handleValidationErrors,
+    (req, res) => controller.getTradeHistory(req, res));
+  router.get('/stats', TradingController.accountModeValidators, handleValidationErrors,
+    (req, res) => controller.getTradingStats(req, res));
+  router.get('/mev-report', (req, res) => controller.getMevReport(req, res));
+
+  // Strategies and backtests
+  router.post('/strategies', TradingController.createStrategyValidators,
+    (req, res) => controller.createStrategy(req, res));
+  router.get('/strategies', validatePagination, handleValidationErrors,
+    (req, res) => controller.getUserStrategies(req, res));
+  router.put('/strategies/:strategyId', validateStrategyId,
+    (req, res) => controller.updateStrategy(req, res));
+  router.delete('/strategies/:strategyId', validateStrategyId, handleValidationErrors,
+    (req, res) => controller.deleteStrategy(req, res));
+  router.post('/strategies/:strategyId/toggle', validateStrategyId, handleValidationErrors,
+    (req, res) => controller.toggleStrategy(req, res));
+  router.post('/backtest/datasets', TradingController.importDatasetValidators,
+    (req, res) => controller.importBacktestDataset(req, res));
+
+  // Market data
+  router.get('/market-data', (req, res) => controller.getMarketData(req, res));
+  router.get('/order-book', validateTradingPair, handleValidationErrors,
+    (req, res) => controller.getOrderBook(req, res));
+
+  // Trading key used to sign live orders
+  router.put('/wallet/key', strictLimiter, TradingController.setTradingKeyValidators,
+    (req, res) => controller.setTradingKey(req, res));
+  router.delete('/wallet/key', strictLimiter, (req, res) => controller.deleteTradingKey(req, res));
+
+  // Paper trading
+  router.get('/paper', (req, res) => controller.getPaperAccount(req, res));
+  router.put('/paper/mode', TradingController.setPaperModeValidators,
+    (req, res) => controller.setPaperMode(req, res));
+  router.post('/paper/reset', strictLimiter, TradingController.resetPaperAccountValidators,
+    (req, res) => controller.resetPaperAccount(req, res));
+
+  return router;
+};
@@ -0,0 +1,471 @@
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import winston from 'winston';
+import { TradingError } from '../../middleware/errorHandler';
+import {
+  BacktestOptions,
+  BacktestResult,
+  Candle,
+  CandleWithIndicators,
+  DcaParameters,
+  GridParameters,
+  OrderSide,
+  Strategy
+} from '../../types/trading';
+import { withIndicators } from '../../utils/indicators';
+import { parseIntervalMs } from '../../utils/intervals';
+
+const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  initialCapital: 1000,
+  feeBps: 30,
+  slippageBps: 50,
+  latencyMs: 0
+};
+
+interface SimOrder {
+  side: OrderSide;
+  amount: number; // Buys: inputMint to spend. Sells: tokens to sell.
+  limitPrice?: number;
+  slot?: number;
+  activeFrom: number; // Epoch ms from which the order can fill
+}
+
+interface SimLot {
+  quantity: number;
+  costPerUnit: number;
+}
+
+interface SimState {
+  cash: number;
+  holdings: number;
+  lots: SimLot[];
+  pnls: number[];
+  fills: number;
+  marketOrders: SimOrder[];
+  limitOrders: SimOrder[];
+}
+
+interface SimContext {
+  state: SimState;
+  candles: CandleWithIndicators[];
+  submitMarket(side: OrderSide, amount: number, time: number): void;
+  submitLimit(side: OrderSide, amount: number, price: number, slot: number, time: number): void;
+}
+
+interface StrategySimulator {
+  onCandle(ctx: SimContext, index: number): void;
+  onFill?(ctx: SimContext, order: SimOrder, quantity: number, time: number): void;
+}
+
+/**
+ * Parse candles from CSV with a header row containing
+ * timestamp, open, high, low, close and (optionally) volume columns.
+ * Timestamps may be ISO 8601, unix seconds or unix milliseconds.
+ */
+export function parseCandlesCsv(csv: string): Candle[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length < 2) {
+    throw new TradingError('CSV must contain a header row and at least one candle', 'INVALID_DATASET');
+  }
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const required = ['timestamp', 'open', 'high', 'low', 'close'];
+  const missing = required.filter(name => column(name) === -1);
+  if (missing.length > 0) {
+    throw new TradingError(`CSV is missing columns: ${missing.join(', ')}`, 'INVALID_DATASET');
+  }
+
+  const candles = lines.slice(1).map((line, i) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const rawTime = cells[column('timestamp')];
+    const numericTime = Number(rawTime);
+    const timestamp = isNaN(numericTime)
+      ? new Date(rawTime)
+      : new Date(numericTime < 1e12 ? numericTime * 1000 : numericTime);
+
+    const candle: Candle = {
+      timestamp,
+      open: parseFloat(cells[column('open')]),
+      high: parseFloat(cells[column('high')]),
+      low: parseFloat(cells[column('low')]),
+      close: parseFloat(cells[column('close')]),
+      volume: column('volume') === -1 ? 0 : parseFloat(cells[column('volume')]) || 0
+    };
+
+    if (isNaN(timestamp.getTime()) || [candle.open, candle.high, candle.low, candle.close].some(isNaN)) {
+      throw new TradingError(`Invalid candle on CSV line ${i + 2}`, 'INVALID_DATASET');
+    }
+    return candle;
+  });
+
+  return candles.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export class BacktestEngine {
+  private pool: Pool;
+  private logger: winston.Logger;
+
+  constructor(pool: Pool, logger: winston.Logger) {
+    this.pool = pool;
+    this.logger = logger;
+  }
+
+  /**
+   * Import a CSV of candles as a reusable dataset
+   */
+  async importDataset(
+    userId: string,
+    input: { name: string; inputMint?: string; outputMint?: string; timeframe?: string; csv: string }
+  ): Promise<{ id: string; name: string; candles: number }> {
+    const candles = parseCandlesCsv(input.csv);
+    const id = randomUUID();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO candle_datasets (id, user_id, name, input_mint, output_mint, timeframe)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [id, userId, input.name, input.inputMint, input.outputMint, input.timeframe]
+      );
+      await client.query(`
+        INSERT INTO candle_dataset_rows (dataset_id, timestamp, open, high, low, close, volume)
+        SELECT $1, * FROM UNNEST($2::timestamptz[], $3::numeric[], $4::numeric[], $5::numeric[], $6::numeric[], $7::numeric[])
+        ON CONFLICT (dataset_id, timestamp) DO NOTHING
+      `, [
+        id,
+        candles.map(c => c.timestamp),
+        candles.map(c => c.open),
+        candles.map(c => c.high),
+        candles.map(c => c.low),
+        candles.map(c => c.close),
+        candles.map(c => c.volume)
+      ]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    this.logger.info(`Imported dataset ${id} (${candles.length} candles) for user ${userId}`);
+    return { id, name: input.name, candles: candles.length };
+  }
+
+  /**
+   * Load a stored dataset owned by the user, oldest candle first
+   */
+  async loadDataset(datasetId: string, userId: string): Promise<Candle[]> {
+    const result = await this.pool.query(`
+      SELECT r.* FROM candle_dataset_rows r
+      JOIN candle_datasets d ON d.id = r.dataset_id
+      WHERE r.dataset_id = $1 AND d.user_id = $2
+      ORDER BY r.timestamp ASC
+    `, [datasetId, userId]);
+
+    return result.rows.map(row => ({
+      timestamp: row.timestamp,
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      volume: parseFloat(row.volume)
+    }));
+  }
+
+  /**
+   * Replay a strategy over historical candles. Candle prices are the strategy's
+   * outputMint priced in its inputMint.
+   */
+  runBacktest(strategy: Strategy, candles: Candle[], options: Partial<BacktestOptions> = {}): BacktestResult {
+    const opts: BacktestOptions = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+    const enriched = withIndicators(candles).filter(candle =>
+      (!opts.startDate || candle.timestamp >= opts.startDate) &&
+      (!opts.endDate || candle.timestamp <= opts.endDate)
+    );
+
+    if (enriched.length < 2) {
+      throw new TradingError('Backtest needs at least two candles in the selected period', 'INVALID_DATASET');
+    }
+
+    const simulator = this.createSimulator(strategy);
+    const state: SimState = {
+      cash: opts.initialCapital,
+      holdings: 0,
+      lots: [],
+      pnls: [],
+      fills: 0,
+      marketOrders: [],
+      limitOrders: []
+    };
+
+    const ctx: SimContext = {
+      state,
+      candles: enriched,
+      submitMarket: (side, amount, time) => {
+        if (amount > 0) state.marketOrders.push({ side, amount, activeFrom: time + opts.latencyMs });
+      },
+      submitLimit: (side, amount, price, slot, time) => {
+        if (amount > 0) state.limitOrders.push({ side, amount, limitPrice: price, slot, activeFrom: time + opts.latencyMs });
+      }
+    };
+
+    const equity: Array<{ date: Date; value: number }> = [];
+
+    for (let i = 0; i < enriched.length; i++) {
+      const candle = enriched[i];
+      const time = candle.timestamp.getTime();
+
+      // 1. Market orders fill at the open of the first candle after the signal plus latency
+      const dueMarket = state.marketOrders.filter(order => order.activeFrom < time);
+      state.marketOrders = state.marketOrders.filter(order => order.activeFrom >= time);
+      for (const order of dueMarket) {
+        const slip = opts.slippageBps / 10000;
+        const price = order.side === OrderSide.BUY ? candle.open * (1 + slip) : candle.open * (1 - slip);
+        const quantity = this.fill(state, order, price, opts.feeBps);
+        if (quantity > 0) simulator.onFill?.(ctx, order, quantity, time);
+      }
+
+      // 2. Resting limit orders fill at their limit, or at the open if price gapped through.
+      // Orders placed by onFill land in the fresh list and can fill from the next candle.
+      const resting = state.limitOrders;
+      state.limitOrders = [];
+      for (const order of resting) {
+        const isBuy = order.side === OrderSide.BUY;
+        const touched = order.activeFrom < time && (isBuy ? candle.low <= order.limitPrice : candle.high >= order.limitPrice);
+        if (!touched) {
+          state.limitOrders.push(order);
+          continue;
+        }
+        const price = isBuy ? Math.min(candle.open, order.limitPrice) : Math.max(candle.open, order.limitPrice);
+        const quantity = this.fill(state, order, price, opts.feeBps);
+        if (quantity > 0) simulator.onFill?.(ctx, order, quantity, time);
+      }
+
+      // 3. Strategy decisions on the closed candle
+      simulator.onCandle(ctx, i);
+
+      equity.push({ date: candle.timestamp, value: state.cash + state.holdings * candle.close });
+    }
+
+    return this.buildResult(strategy, enriched, equity, state, opts);
+  }
+
+  // Private helper methods
+
+  /**
+   * Apply a fill to the simulated account. Returns the token quantity bought or sold.
+   */
+  private fill(state: SimState, order: SimOrder, price: number, feeBps: number): number {
+    const feeRate = feeBps / 10000;
+
+    if (order.side === OrderSide.BUY) {
+      const spend = Math.min(order.amount, state.cash);
+      if (spend <= 0) return 0;
+      const quantity = (spend * (1 - feeRate)) / price;
+      state.cash -= spend;
+      state.holdings += quantity;
+      state.lots.push({ quantity, costPerUnit: spend / quantity });
+      state.fills++;
+      return quantity;
+    }
+
+    let quantity = Math.min(order.amount, state.holdings);
+    if (quantity <= 0) return 0;
+    const netPerUnit = price * (1 - feeRate);
+    state.cash += quantity * netPerUnit;
+    state.holdings -= quantity;
+    state.fills++;
+
+    // Realise P&L lot by lot, oldest first
+    let toClose = quantity;
+    while (toClose > 1e-12 && state.lots.length > 0) {
+      const lot = state.lots[0];
+      const closed = Math.min(lot.quantity, toClose);
+      state.pnls.push(closed * (netPerUnit - lot.costPerUnit));
+      lot.quantity -= closed;
+      toClose -= closed;
+      if (lot.quantity <= 1e-12) state.lots.shift();
+    }
+
+    return quantity;
+  }
+
+  private createSimulator(strategy: Strategy): StrategySimulator {
+    switch (strategy.type) {
+      case 'DCA':
+        return this.createDcaSimulator(strategy.parameters as DcaParameters);
+      case 'GRID':
+        return this.createGridSimulator(strategy.parameters as GridParameters);
+      case 'MOMENTUM':
+        return this.createMomentumSimulator(strategy.parameters);
+      case 'MEAN_REVERSION':
+        return this.createMeanReversionSimulator(strategy.parameters);
+      default:
+        throw new TradingError(`Backtesting is not supported for ${strategy.type} strategies`, 'BACKTEST_UNSUPPORTED');
+    }
+  }
+
+  private createDcaSimulator(params: DcaParameters): StrategySimulator {
+    const interval = parseIntervalMs(params.interval);
+    if (!interval) {
+      throw new TradingError(`Invalid interval: ${params.interval}`, 'INVALID_STRATEGY_PARAMETERS');
+    }
+
+    const endTime = params.endDate ? new Date(params.endDate).getTime() : Infinity;
+    let nextBuyAt = params.startDate ? new Date(params.startDate).getTime() : -Infinity;
+    let spent = 0;
+
+    return {
+      onCandle: (ctx, index) => {
+        const time = ctx.candles[index].timestamp.getTime();
+        if (time < nextBuyAt || time > endTime) return;
+
+        const budgetLeft = params.totalBudget !== undefined ? params.totalBudget - spent : Infinity;
+        const amount = Math.min(params.amountPerOrder, budgetLeft, ctx.state.cash);
+        if (amount > 0) {
+          ctx.submitMarket(OrderSide.BUY, amount, time);
+          spent += amount;
+        }
+        nextBuyAt = time + interval;
+      }
+    };
+  }
+
+  private createGridSimulator(params: GridParameters): StrategySimulator {
+    const step = (params.upperPrice - params.lowerPrice) / (params.levels - 1);
+    const prices = Array.from({ length: params.levels }, (_, i) => params.lowerPrice + step * i);
+
+    return {
+      onCandle: (ctx, index) => {
+        const candle = ctx.candles[index];
+        for (let slot = 0; slot < prices.length - 1; slot++) {
+          const armed = ctx.state.limitOrders.some(order => order.slot === slot);
+          // Same rule as the live grid: only arm a buy while price sits above the level
+          if (!armed && candle.close > prices[slot] && ctx.state.cash >= params.amountPerLevel) {
+            ctx.submitLimit(OrderSide.BUY, params.amountPerLevel, prices[slot], slot, candle.timestamp.getTime());
+          }
+        }
+      },
+      onFill: (ctx, order, quantity, time) => {
+        if (order.side === OrderSide.BUY) {
+          ctx.submitLimit(OrderSide.SELL, quantity, prices[order.slot + 1], order.slot, time);
+        }
+      }
+    };
+  }
+
+  private createMomentumSimulator(params: Record<string, any>): StrategySimulator {
+    const overbought = params.rsiOverbought ?? 70;
+
+    return {
+      onCandle: (ctx, index) => {
+        if (index === 0 || ctx.state.marketOrders.length > 0) return;
+        const previous = ctx.candles[index - 1];
+        const candle = ctx.candles[index];
+        if ([previous.macd, previous.macdSignal, candle.macd, candle.macdSignal].some(v => v === undefined)) return;
+
+        const crossedUp = previous.macd <= previous.macdSignal && candle.macd > candle.macdSignal;
+        const crossedDown = previous.macd >= previous.macdSignal && candle.macd < candle.macdSignal;
+        const time = candle.timestamp.getTime();
+
+        if (ctx.state.holdings === 0 && crossedUp && (candle.rsi === undefined || candle.rsi < overbought)) {
+          ctx.submitMarket(OrderSide.BUY, Math.min(params.amountPerTrade ?? Infinity, ctx.state.cash), time);
+        } else if (ctx.state.holdings > 0 && crossedDown) {
+          ctx.submitMarket(OrderSide.SELL, ctx.state.holdings, time);
+        }
+      }
+    };
+  }
+
+  private createMeanReversionSimulator(params: Record<string, any>): StrategySimulator {
+    const oversold = params.rsiOversold ?? 30;
+    const overbought = params.rsiOverbought ?? 70;
+
+    return {
+      onCandle: (ctx, index) => {
+        if (ctx.state.marketOrders.length > 0) return;
+        const candle = ctx.candles[index];
+        if (!candle.bollinger) return;
+        const time = candle.timestamp.getTime();
+
+        const stretchedDown = candle.close < candle.bollinger.lower || (candle.rsi !== undefined && candle.rsi < oversold);
+        const reverted = candle.close >= candle.bollinger.middle || (candle.rsi !== undefined && candle.rsi > overbought);
+
+        if (ctx.state.holdings === 0 && stretchedDown) {
+          ctx.submitMarket(OrderSide.BUY, Math.min(params.amountPerTrade ?? Infinity, ctx.state.cash), time);
+        } else if (ctx.state.holdings > 0 && reverted) {
+          ctx.submitMarket(OrderSide.SELL, ctx.state.holdings, time);
+        }
+      }
+    };
+  }
+
+  private buildResult(
+    strategy: Strategy,
+    candles: CandleWithIndicators[],
+    equity: Array<{ date: Date; value: number }>,
+    state: SimState,
+    opts: BacktestOptions
+  ): BacktestResult {
+    const lastClose = candles[candles.length - 1].close;
+
+    // Open lots are marked to market at the final close so buy-only strategies still get win/loss stats
+    const pnls = [...state.pnls, ...state.lots.map(lot => lot.quantity * (lastClose - lot.costPerUnit))];
+    const wins = pnls.filter(pnl => pnl > 0);
+    const losses = pnls.filter(pnl => pnl < 0);
+
+    // Daily returns from end-of-day equity (UTC)
+    const endOfDay = new Map<string, { date: Date; value: number }>();
+    for (const point of equity) {
+      endOfDay.set(point.date.toISOString().slice(0, 10), point);
+    }
+
+    let previousValue = opts.initialCapital;
+    const dailyReturns = Array.from(endOfDay.entries()).map(([day, point]) => {
+      const dailyReturn = point.value - previousValue;
+      const returnPercentage = previousValue > 0 ? (dailyReturn / previousValue) * 100 : 0;
+      previousValue = point.value;
+      return { date: new Date(day), return: dailyReturn, returnPercentage, portfolioValue: point.value };
+    });
+
+    // Max drawdown over the full equity curve
+    let peak = -Infinity;
+    let maxDrawdown = 0;
+    for (const point of equity) {
+      peak = Math.max(peak, point.value);
+      if (peak > 0) maxDrawdown = Math.max(maxDrawdown, ((peak - point.value) / peak) * 100);
+    }
+
+    // Annualised Sharpe from daily returns (crypto trades every day, risk-free rate of 0)
+    const returns = dailyReturns.map(day => day.returnPercentage / 100);
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / Math.max(returns.length - 1, 1);
+    const sharpeRatio = variance > 0 ? (mean / Math.sqrt(variance)) * Math.sqrt(365) : 0;
+
+    const finalValue = equity[equity.length - 1].value;
+    const totalReturn = finalValue - opts.initialCapital;
+    const start = candles[0].timestamp;
+    const end = candles[candles.length - 1].timestamp;
+    const days = Math.max((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000), 1);
+
+    return {
+      strategyId: strategy.id,
+      period: { start, end },
+      totalReturn,
+      totalReturnPercentage: (totalReturn / opts.initialCapital) * 100,
+      annualizedReturn: (Math.pow(finalValue / opts.initialCapital, 365 / days) - 1) * 100,
+      maxDrawdown,
+      sharpeRatio,
+      winRate: pnls.length > 0 ? (wins.length / pnls.length) * 100 : 0,
+      totalTrades: state.fills,
+      winningTrades: wins.length,
+      losingTrades: losses.length,
+      averageWin: wins.length > 0 ? wins.reduce((sum, p) => sum + p, 0) / wins.length : 0,
+      averageLoss: losses.length > 0 ? losses.reduce((sum, p) => sum + p, 0) / losses.length : 0,
+      dailyReturns
+    };
+  }
+}
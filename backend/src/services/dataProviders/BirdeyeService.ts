@@ -0,0 +1,64 @@
+import axios from 'axios';
+import winston from 'winston';
+import { TIMEFRAME_SECONDS } from '../../config/trading';
+import { Candle } from '../../types/trading';
+
+// Birdeye's names for our timeframes
+const BIRDEYE_TIMEFRAMES: { [timeframe: string]: string } = {
+  '1m': '1m',
+  '5m': '5m',
+  '15m': '15m',
+  '1h': '1H',
+  '4h': '4H',
+  '1d': '1D'
+};
+
+export class BirdeyeService {
+  private logger: winston.Logger;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(
+    logger: winston.Logger,
+    apiKey = process.env.BIRDEYE_API_KEY,
+    baseUrl = process.env.BIRDEYE_API_URL || 'https://public-api.birdeye.so'
+  ) {
+    this.logger = logger;
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Get the most recent OHLCV candles for a mint, oldest first
+   */
+  async getOHLCV(mint: string, timeframe: string, limit: number): Promise<Candle[]> {
+    const type = BIRDEYE_TIMEFRAMES[timeframe];
+    if (!type) {
+      throw new Error(`Unsupported timeframe: ${timeframe}`);
+    }
+
+    const timeTo = Math.floor(Date.now() / 1000);
+    const timeFrom = timeTo - TIMEFRAME_SECONDS[timeframe] * limit;
+
+    try {
+      const { data } = await axios.get(`${this.baseUrl}/defi/ohlcv`, {
+        params: { address: mint, type, time_from: timeFrom, time_to: timeTo },
+        headers: { 'X-API-KEY': this.apiKey, 'x-chain': 'solana' },
+        timeout: 10000
+      });
+
+      const items: any[] = data?.data?.items || [];
+      return items.map(item => ({
+        timestamp: new Date(item.unixTime * 1000),
+        open: item.o,
+        high: item.h,
+        low: item.l,
+        close: item.c,
+        volume: item.v
+      }));
+    } catch (error) {
+      this.logger.warn(`Birdeye OHLCV lookup failed for ${mint}: ${error.message}`);
+      return [];
+    }
+  }
+}
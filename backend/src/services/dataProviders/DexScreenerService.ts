@@ -0,0 +1,65 @@
+import axios from 'axios';
+import winston from 'winston';
+
+export interface DexScreenerPair {
+  chainId: string;
+  dexId: string;
+  pairAddress: string;
+  baseToken: { address: string; name: string; symbol: string };
+  quoteToken: { address: string; name: string; symbol: string };
+  priceNative: string;
+  priceUsd?: string;
+  liquidity?: { usd?: number; base?: number; quote?: number };
+  volume?: { h24?: number };
+  priceChange?: { h24?: number };
+  fdv?: number;
+}
+
+export class DexScreenerService {
+  private logger: winston.Logger;
+  private baseUrl: string;
+
+  constructor(logger: winston.Logger, baseUrl = process.env.DEXSCREENER_API_URL || 'https://api.dexscreener.com') {
+    this.logger = logger;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Get all Solana pairs that trade the given mint
+   */
+  async getTokenPairs(mint: string): Promise<DexScreenerPair[]> {
+    try {
+      const { data } = await axios.get(`${this.baseUrl}/latest/dex/tokens/${mint}`, { timeout: 10000 });
+      const pairs: DexScreenerPair[] = data?.pairs || [];
+      return pairs.filter(pair => pair.chainId === 'solana');
+    } catch (error) {
+      this.logger.warn(`DexScreener pairs lookup failed for ${mint}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Get total USD liquidity across all pools for a mint, or null if unknown
+   */
+  async getTokenLiquidity(mint: string): Promise<number | null> {
+    const pairs = await this.getTokenPairs(mint);
+    if (pairs.length === 0) {
+      return null;
+    }
+
+    return pairs.reduce((total, pair) => total + (pair.liquidity?.usd || 0), 0);
+  }
+
+  /**
+   * 24h USD price change of a mint in percent, from its most liquid pair, or null if unknown
+   */
+  async getPriceChange24h(mint: string): Promise<number | null> {
+    const pairs = (await this.getTokenPairs(mint)).filter(pair => pair.baseToken.address === mint);
+    if (pairs.length === 0) {
+      return null;
+    }
+
+    const deepest = pairs.reduce((best, pair) => (pair.liquidity?.usd || 0) > (best.liquidity?.usd || 0) ? pair : best);
+    return deepest.priceChange?.h24 ?? null;
+  }
+}
@@ -0,0 +1,393 @@
+import axios from 'axios';
+import { Connection, LAMPORTS_PER_SOL, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import winston from 'winston';
+import {
+  JUPITER_API_URL,
+  JUPITER_PRICE_API_URL,
+  PLATFORM_FEE_ACCOUNT,
+  PLATFORM_FEE_BPS,
+  SOL_MINT
+} from '../../config/trading';
+import { Quote, SwapResult } from '../../types/trading';
+import { FeeOptions, PriorityFeeEstimator } from '../transactions/PriorityFeeEstimator';
+import { SignedTransaction, TransactionSender } from '../transactions/TransactionSender';
+
+/**
+ * Signs swap transactions on behalf of a user's wallet
+ */
+export interface SwapSigner {
+  signTransaction(wallet: string, transaction: VersionedTransaction): Promise<VersionedTransaction>;
+}
+
+export interface QuoteOptions {
+  dexes?: string[]; // Only route through these venues (Jupiter labels)
+}
+
+export interface SwapFeeOptions extends FeeOptions {
+  prioritizationFeeLamports?: number; // Fixed total priority fee instead of an estimate, still capped
+}
+
+export interface JupiterServiceOptions {
+  baseUrl: string; // Quote and swap API
+  priceApiUrl: string;
+  platformFeeBps: number;
+  platformFeeAccount?: string;
+  defaultSlippageBps: number;
+  maxRetries: number; // Retries after the first attempt for transient failures
+  retryDelayMs: number; // First backoff delay, doubled on each retry
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: JupiterServiceOptions = {
+  baseUrl: JUPITER_API_URL,
+  priceApiUrl: JUPITER_PRICE_API_URL,
+  platformFeeBps: PLATFORM_FEE_BPS,
+  platformFeeAccount: PLATFORM_FEE_ACCOUNT,
+  defaultSlippageBps: 50,
+  maxRetries: 3,
+  retryDelayMs: 250,
+  timeoutMs: 10000
+};
+
+// Base fee per signature, paid on top of any priority fee
+const BASE_FEE_LAMPORTS = 5000;
+
+/**
+ * Typed client for the Jupiter quote, swap and price APIs. Amounts passed in and returned
+ * are UI amounts; conversion to raw base units uses the mint's decimals.
+ */
+export class JupiterService {
+  private connection: Connection;
+  private logger: winston.Logger;
+  private signer?: SwapSigner;
+  private transactionSender?: TransactionSender;
+  private feeEstimator: PriorityFeeEstimator;
+  private options: JupiterServiceOptions;
+  private decimalsCache = new Map<string, number>([[SOL_MINT, 9]]);
+
+  constructor(
+    connection: Connection,
+    logger: winston.Logger,
+    signer?: SwapSigner,
+    transactionSender?: TransactionSender,
+    options: Partial<JupiterServiceOptions> = {}
+  ) {
+    this.connection = connection;
+    this.logger = logger;
+    this.signer = signer;
+    this.transactionSender = transactionSender;
+    this.feeEstimator = new PriorityFeeEstimator(connection, logger);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Get the best route for swapping a UI amount of inputMint into outputMint, or null if
+   * no route is available
+   */
+  async getQuote(
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    slippageBps = this.options.defaultSlippageBps,
+    quoteOptions: QuoteOptions = {}
+  ): Promise<Quote | null> {
+    try {
+      const rawAmount = await this.toRawAmount(inputMint, amount);
+      if (rawAmount <= 0n) {
+        return null;
+      }
+
+      const params: Record<string, string | number> = {
+        inputMint,
+        outputMint,
+        amount: rawAmount.toString(),
+        slippageBps
+      };
+      if (this.isPlatformFeeEnabled()) {
+        params.platformFeeBps = this.options.platformFeeBps;
+      }
+      if (quoteOptions.dexes?.length) {
+        params.dexes = quoteOptions.dexes.join(',');
+      }
+
+      return await this.request<Quote>(`quote ${inputMint}/${outputMint}`, () =>
+        axios.get(`${this.options.baseUrl}/quote`, { params, timeout: this.options.timeoutMs })
+      );
+    } catch (error) {
+      this.logger.warn(`Jupiter quote failed for ${inputMint}/${outputMint}: ${this.describeError(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * True when live swaps can be signed and sent
+   */
+  canSign(): boolean {
+    return !!this.signer && !!this.transactionSender;
+  }
+
+  /**
+   * Build, sign and send the swap transaction for a quote, then wait for confirmation.
+   * slippageTolerance (a fraction) caps Jupiter's dynamic slippage when given. If the
+   * transaction expires unconfirmed the same quote is rebuilt with a fresh blockhash; the
+   * quote's minimum output still bounds the fill. reference (e.g. an order id) is stored with
+   * the transaction. The priority fee is estimated from recent fees on the route's pools
+   * unless feeOptions fixes it, and never exceeds the fee cap.
+   */
+  async executeSwap(
+    quote: Quote,
+    userWallet: string,
+    slippageTolerance?: number,
+    reference?: string,
+    feeOptions: SwapFeeOptions = {}
+  ): Promise<SwapResult> {
+    if (!this.canSign()) {
+      return { success: false, error: 'No transaction signer configured for swaps' };
+    }
+
+    try {
+      let prioritizationFeeLamports = 0;
+
+      const build = async (): Promise<SignedTransaction> => {
+        const swap = await this.requestSwapTransaction(quote, userWallet, slippageTolerance, feeOptions);
+
+        const transaction = await this.signer!.signTransaction(
+          userWallet,
+          VersionedTransaction.deserialize(Buffer.from(swap.swapTransaction, 'base64'))
+        );
+        prioritizationFeeLamports = swap.prioritizationFeeLamports || 0;
+        return { transaction, lastValidBlockHeight: swap.lastValidBlockHeight };
+      };
+
+      const sent = await this.transactionSender.send(build, { kind: 'swap', reference, wallet: userWallet });
+      if (!sent.success) {
+        return { success: false, signature: sent.signature, error: sent.error };
+      }
+
+      const signature = sent.signature!;
+      this.logger.info(`Swap confirmed for ${userWallet}: ${signature}`);
+      return {
+        success: true,
+        signature,
+        fees: (BASE_FEE_LAMPORTS + prioritizationFeeLamports) / LAMPORTS_PER_SOL,
+        slippage: parseFloat(quote.priceImpactPct) || 0,
+        outputAmount: await this.getReceivedAmount(signature, userWallet, quote.outputMint)
+      };
+    } catch (error) {
+      this.logger.error(`Jupiter swap failed for ${userWallet}:`, error);
+      return { success: false, error: this.describeError(error) };
+    }
+  }
+
+  /**
+   * Result of a swap read back from chain, for a swap that landed without its sender seeing
+   * it confirm, e.g. after a restart
+   */
+  async getLandedSwap(signature: string, quote: Quote, userWallet: string): Promise<SwapResult> {
+    let fee = BASE_FEE_LAMPORTS;
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      fee = tx?.meta?.fee ?? fee;
+    } catch (error) {
+      this.logger.warn(`Unable to read fee for ${signature}: ${this.describeError(error)}`);
+    }
+
+    return {
+      success: true,
+      signature,
+      fees: fee / LAMPORTS_PER_SOL,
+      slippage: parseFloat(quote.priceImpactPct) || 0,
+      outputAmount: await this.getReceivedAmount(signature, userWallet, quote.outputMint)
+    };
+  }
+
+  /**
+   * Price of one unit of mint in vsMint, or null if Jupiter has no price for it
+   */
+  async getTokenPrice(mint: string, vsMint: string = SOL_MINT): Promise<number | null> {
+    if (mint === vsMint) return 1;
+
+    try {
+      const data = await this.request<any>(`price ${mint}/${vsMint}`, () =>
+        axios.get(this.options.priceApiUrl, {
+          params: { ids: mint, vsToken: vsMint },
+          timeout: this.options.timeoutMs
+        })
+      );
+
+      const price = parseFloat(data?.data?.[mint]?.price);
+      return Number.isFinite(price) && price > 0 ? price : null;
+    } catch (error) {
+      this.logger.warn(`Jupiter price lookup failed for ${mint}/${vsMint}: ${this.describeError(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * USD price of one unit of mint, or null if Jupiter has no price for it
+   */
+  async getTokenPriceUsd(mint: string): Promise<number | null> {
+    try {
+      const data = await this.request<any>(`price ${mint}/USD`, () =>
+        axios.get(this.options.priceApiUrl, { params: { ids: mint }, timeout: this.options.timeoutMs })
+      );
+
+      const price = parseFloat(data?.data?.[mint]?.price);
+      return Number.isFinite(price) && price > 0 ? price : null;
+    } catch (error) {
+      this.logger.warn(`Jupiter USD price lookup failed for ${mint}: ${this.describeError(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Number of decimals of a mint, read once from chain and cached
+   */
+  async getTokenDecimals(mint: string): Promise<number> {
+    const cached = this.decimalsCache.get(mint);
+    if (cached !== undefined) return cached;
+
+    const account = await this.connection.getParsedAccountInfo(new PublicKey(mint));
+    const decimals = (account.value?.data as any)?.parsed?.info?.decimals;
+    if (typeof decimals !== 'number') {
+      throw new Error(`Unable to read decimals for mint ${mint}`);
+    }
+
+    this.decimalsCache.set(mint, decimals);
+    return decimals;
+  }
+
+  /**
+   * Convert a UI amount to raw base units at the mint's precision
+   */
+  async toRawAmount(mint: string, amount: number): Promise<bigint> {
+    const decimals = await this.getTokenDecimals(mint);
+    const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+    return BigInt(whole + fraction.padEnd(decimals, '0').slice(0, decimals));
+  }
+
+  /**
+   * Convert raw base units (as returned in quotes) to a UI amount
+   */
+  async toUiAmount(mint: string, rawAmount: string | bigint): Promise<number> {
+    const decimals = await this.getTokenDecimals(mint);
+    return Number(rawAmount) / Math.pow(10, decimals);
+  }
+
+  // Private helper methods
+
+  /**
+   * UI amount of mint the wallet gained in a confirmed transaction, read from its balance
+   * changes. Returns undefined if the transaction cannot be loaded.
+   */
+  private async getReceivedAmount(signature: string, wallet: string, mint: string): Promise<number | undefined> {
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      if (!tx?.meta) return undefined;
+
+      // Wrapped SOL is unwrapped at the end of the swap, so SOL shows up in the fee payer's
+      // native balance; the network fee is added back since it is not part of the fill
+      if (mint === SOL_MINT) {
+        const lamports = tx.meta.postBalances[0] - tx.meta.preBalances[0] + tx.meta.fee;
+        return lamports / LAMPORTS_PER_SOL;
+      }
+
+      const sum = (balances: typeof tx.meta.postTokenBalances) =>
+        (balances || [])
+          .filter(balance => balance.mint === mint && balance.owner === wallet)
+          .reduce((total, balance) => total + (balance.uiTokenAmount.uiAmount || 0), 0);
+      return sum(tx.meta.postTokenBalances) - sum(tx.meta.preTokenBalances);
+    } catch (error) {
+      this.logger.warn(`Unable to read received amount for ${signature}: ${this.describeError(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get an unsigned swap transaction from Jupiter. The compute unit price is bid from
+   * recent fees on the route's pools; Jupiter simulates the swap to set the compute unit
+   * limit, and the request is repeated at a lower price if that limit would push the fee
+   * over the cap.
+   */
+  private async requestSwapTransaction(
+    quote: Quote,
+    userWallet: string,
+    slippageTolerance: number | undefined,
+    feeOptions: SwapFeeOptions
+  ): Promise<any> {
+    const post = (fee: Record<string, number>) =>
+      this.request<any>(`swap ${quote.inputMint}/${quote.outputMint}`, () =>
+        axios.post(`${this.options.baseUrl}/swap`, {
+          quoteResponse: quote,
+          userPublicKey: userWallet,
+          wrapAndUnwrapSol: true,
+          dynamicComputeUnitLimit: true,
+          feeAccount: this.isPlatformFeeEnabled() ? this.options.platformFeeAccount : undefined,
+          dynamicSlippage: slippageTolerance !== undefined
+            ? { maxBps: Math.round(slippageTolerance * 10000) }
+            : undefined,
+          ...fee
+        }, { timeout: this.options.timeoutMs })
+      );
+
+    if (feeOptions.prioritizationFeeLamports !== undefined) {
+      const maxFeeLamports = this.feeEstimator.getFeeCap(feeOptions.maxFeeLamports);
+      return post({ prioritizationFeeLamports: Math.min(feeOptions.prioritizationFeeLamports, maxFeeLamports) });
+    }
+
+    const pools = (quote.routePlan || []).map(step => new PublicKey(step.swapInfo.ammKey));
+    const price = await this.feeEstimator.getPriorityFee([new PublicKey(userWallet), ...pools], feeOptions.priorityLevel);
+
+    const swap = await post({ computeUnitPriceMicroLamports: price });
+    if (!swap.computeUnitLimit) {
+      return swap;
+    }
+
+    const cappedPrice = this.feeEstimator.capPrice(price, swap.computeUnitLimit, feeOptions.maxFeeLamports);
+    return cappedPrice < price ? post({ computeUnitPriceMicroLamports: cappedPrice }) : swap;
+  }
+
+  private isPlatformFeeEnabled(): boolean {
+    return this.options.platformFeeBps > 0 && !!this.options.platformFeeAccount;
+  }
+
+  /**
+   * Run an HTTP call, retrying network errors, 429s and 5xx responses with exponential backoff
+   */
+  private async request<T>(label: string, call: () => Promise<{ data: T }>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await call();
+        return response.data;
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !this.isTransient(error)) {
+          throw error;
+        }
+
+        const delay = this.options.retryDelayMs * Math.pow(2, attempt) * (0.5 + Math.random() / 2);
+        this.logger.debug(`Jupiter ${label} failed (${this.describeError(error)}), retrying in ${Math.round(delay)}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private isTransient(error: any): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  private describeError(error: any): string {
+    if (axios.isAxiosError(error) && error.response) {
+      const message = (error.response.data as any)?.error || error.message;
+      return `${error.response.status} ${message}`;
+    }
+    return error.message;
+  }
+}
@@ -0,0 +1,400 @@
+import { Pool, PoolClient } from 'pg';
+import winston from 'winston';
+import { CANDLE_MINTS, TIMEFRAME_SECONDS } from '../../config/trading';
+import { Candle, OrderStatus } from '../../types/trading';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { BirdeyeService } from '../dataProviders/BirdeyeService';
+import { JupiterService } from '../dataProviders/JupiterService';
+
+export interface CandleStoreOptions {
+  watchMints: string[]; // Always polled
+  watchTtlMs: number; // Mints added by chart requests are polled this long after the last request
+  maxWatched: number; // Cap on mints added by chart requests; the one requested longest ago makes room
+  backfillCooldownMs: number; // Minimum time between provider backfills of one mint and timeframe
+  tradeBatchSize: number;
+  concurrency: number; // Price requests in flight at once
+}
+
+const DEFAULT_OPTIONS: CandleStoreOptions = {
+  watchMints: CANDLE_MINTS,
+  watchTtlMs: 24 * 60 * 60 * 1000,
+  maxWatched: 200,
+  backfillCooldownMs: 5 * 60 * 1000,
+  tradeBatchSize: 500,
+  concurrency: 3
+};
+
+// Days of history kept per timeframe; timeframes not listed are kept forever
+const RETENTION_DAYS: { [timeframe: string]: number } = {
+  '1m': 7,
+  '5m': 30,
+  '15m': 90,
+  '1h': 365
+};
+
+const TIMEFRAMES = Object.keys(TIMEFRAME_SECONDS);
+
+/**
+ * Builds OHLCV candles (prices in USD) from our own price polls and executed trades, so
+ * charts keep working when upstream APIs are down. Every tick is written into all
+ * timeframes at once. Gaps are backfilled from Birdeye without overwriting our own
+ * buckets. Volume on our buckets is the USD volume of our users' trades, not the market's.
+ */
+export class CandleStore {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private jupiterService: JupiterService;
+  private birdeyeService: BirdeyeService;
+  private options: CandleStoreOptions;
+  private watched = new Map<string, number>(); // mint -> watch expiry
+  private backfilledAt = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+  private lastPruneAt = 0;
+
+  constructor(
+    pool: Pool,
+    logger: winston.Logger,
+    jupiterService: JupiterService,
+    birdeyeService: BirdeyeService,
+    options: Partial<CandleStoreOptions> = {}
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.jupiterService = jupiterService;
+    this.birdeyeService = birdeyeService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start polling prices and ingesting trades
+   */
+  start(pollMs = 60 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), pollMs);
+    this.logger.info(`Candle store started (poll ${pollMs}ms)`);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Keep polling a mint's price for a while, e.g. because someone opened its chart. A mint
+   * not watched yet is only added if it has a price, which is recorded straight away.
+   * Returns false if it has none.
+   */
+  async watch(mint: string): Promise<boolean> {
+    const expiresAt = Date.now() + this.options.watchTtlMs;
+    if (this.watched.has(mint)) {
+      this.watched.set(mint, expiresAt);
+      return true;
+    }
+
+    const price = await this.jupiterService.getTokenPriceUsd(mint);
+    if (!price) {
+      return false;
+    }
+    await this.recordTick(this.pool, mint, price, new Date(), 0, 0);
+
+    this.pruneWatched();
+    if (this.watched.size >= this.options.maxWatched) {
+      // Expiries all share one TTL, so the earliest is the mint requested longest ago
+      const [oldest] = [...this.watched.entries()].reduce((a, b) => (b[1] < a[1] ? b : a));
+      this.watched.delete(oldest);
+    }
+    this.watched.set(mint, expiresAt);
+    return true;
+  }
+
+  /**
+   * One polling round: record a price for every watched mint, then roll up new trades
+   */
+  async poll(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const mints = await this.getWatchedMints();
+      const at = new Date();
+      await mapWithConcurrency(mints, this.options.concurrency, async mint => {
+        try {
+          const price = await this.jupiterService.getTokenPriceUsd(mint);
+          if (price) {
+            await this.recordTick(this.pool, mint, price, at, 0, 0);
+          }
+        } catch (error) {
+          this.logger.error(`Error recording price candle for ${mint}:`, error);
+        }
+      });
+
+      while (await this.ingestTrades() === this.options.tradeBatchSize) {
+        // Keep going until the backlog of trades is drained
+      }
+
+      if (Date.now() - this.lastPruneAt > 60 * 60 * 1000) {
+        await this.pruneCandles();
+        this.lastPruneAt = Date.now();
+      }
+    } catch (error) {
+      this.logger.error('Error polling candles:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Record a price observation in every timeframe
+   */
+  async recordPrice(mint: string, priceUsd: number, at = new Date()): Promise<void> {
+    await this.recordTick(this.pool, mint, priceUsd, at, 0, 0);
+  }
+
+  /**
+   * Roll up a batch of executed live trades that are valued in USD and not yet in candles.
+   * Each side of a trade gives a price for its mint. Returns the number of trades ingested.
+   */
+  async ingestTrades(): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(`
+        UPDATE trades SET in_candles = TRUE
+        WHERE id IN (
+          SELECT id FROM trades
+          WHERE NOT in_candles AND is_simulated = FALSE AND status = 'completed' AND volume_usd IS NOT NULL
+          ORDER BY executed_at ASC
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING input_mint, output_mint, input_amount, output_amount, volume_usd, executed_at
+      `, [this.options.tradeBatchSize]);
+
+      for (const row of result.rows) {
+        const volumeUsd = parseFloat(row.volume_usd);
+        const sides: Array<[string, number]> = [
+          [row.input_mint, parseFloat(row.input_amount)],
+          [row.output_mint, parseFloat(row.output_amount)]
+        ];
+        for (const [mint, amount] of sides) {
+          if (amount > 0) {
+            await this.recordTick(client, mint, volumeUsd / amount, row.executed_at, volumeUsd, 1);
+          }
+        }
+      }
+
+      await client.query('COMMIT');
+      return result.rows.length;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.logger.error('Error ingesting trades into candles:', error);
+      return 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the most recent candles for a mint, oldest first. Missing buckets are backfilled
+   * from providers when possible and otherwise carried forward from the previous close.
+   */
+  async getCandles(mint: string, timeframe: string, limit: number): Promise<Candle[]> {
+    const seconds = TIMEFRAME_SECONDS[timeframe];
+    if (!seconds) {
+      throw new Error(`Unsupported timeframe: ${timeframe}`);
+    }
+
+    await this.watch(mint);
+
+    const end = Math.floor(Date.now() / 1000 / seconds) * seconds;
+    const start = end - (limit - 1) * seconds;
+
+    let candles = await this.loadCandles(mint, timeframe, start);
+    if (candles.length < limit && await this.backfill(mint, timeframe, limit)) {
+      candles = await this.loadCandles(mint, timeframe, start);
+    }
+
+    return this.fillGaps(candles, seconds, end);
+  }
+
+  // Private helper methods
+
+  private async getWatchedMints(): Promise<string[]> {
+    this.pruneWatched();
+
+    // Mints with working orders need prices whether or not anyone has their chart open
+    const orders = await this.pool.query(`
+      SELECT DISTINCT unnest(ARRAY[input_mint, output_mint]) AS mint
+      FROM orders
+      WHERE status = ANY($1)
+    `, [[OrderStatus.PENDING, OrderStatus.PARTIALLY_FILLED, OrderStatus.WAITING]]);
+
+    return [...new Set([
+      ...this.options.watchMints,
+      ...this.watched.keys(),
+      ...orders.rows.map((row: any) => row.mint)
+    ])];
+  }
+
+  /**
+   * Drop expired chart watches and backfill cooldowns that have passed
+   */
+  private pruneWatched(): void {
+    const now = Date.now();
+    for (const [mint, expiresAt] of this.watched) {
+      if (expiresAt <= now) this.watched.delete(mint);
+    }
+    for (const [key, attemptedAt] of this.backfilledAt) {
+      if (now - attemptedAt >= this.options.backfillCooldownMs) this.backfilledAt.delete(key);
+    }
+  }
+
+  /**
+   * Upsert one tick into the bucket it falls in for every timeframe
+   */
+  private async recordTick(
+    db: Pool | PoolClient,
+    mint: string,
+    priceUsd: number,
+    at: Date,
+    volumeUsd: number,
+    tradeCount: number
+  ): Promise<void> {
+    await db.query(`
+      INSERT INTO candles (
+        mint, timeframe, bucket_start, open, high, low, close, volume, trade_count,
+        first_tick_at, last_tick_at, source
+      )
+      SELECT $1, tf.timeframe, TO_TIMESTAMP(FLOOR(EXTRACT(EPOCH FROM $3::TIMESTAMPTZ) / tf.seconds) * tf.seconds),
+        $2, $2, $2, $2, $4, $5, $3, $3, 'internal'
+      FROM UNNEST($6::TEXT[], $7::INTEGER[]) AS tf(timeframe, seconds)
+      ON CONFLICT (mint, timeframe, bucket_start) DO UPDATE SET
+        open = CASE WHEN EXCLUDED.first_tick_at < candles.first_tick_at THEN EXCLUDED.open ELSE candles.open END,
+        high = GREATEST(candles.high, EXCLUDED.high),
+        low = LEAST(candles.low, EXCLUDED.low),
+        close = CASE WHEN EXCLUDED.last_tick_at >= candles.last_tick_at THEN EXCLUDED.close ELSE candles.close END,
+        volume = candles.volume + EXCLUDED.volume,
+        trade_count = candles.trade_count + EXCLUDED.trade_count,
+        first_tick_at = LEAST(candles.first_tick_at, EXCLUDED.first_tick_at),
+        last_tick_at = GREATEST(candles.last_tick_at, EXCLUDED.last_tick_at),
+        source = 'internal'
+    `, [mint, priceUsd, at, volumeUsd, tradeCount, TIMEFRAMES, TIMEFRAMES.map(tf => TIMEFRAME_SECONDS[tf])]);
+  }
+
+  /**
+   * Fill in buckets from Birdeye. Buckets we already have are left alone. Provider buckets
+   * are stamped with their start time as both first and last tick, so later ticks of ours
+   * update the close. Returns true if any candles were fetched.
+   */
+  private async backfill(mint: string, timeframe: string, limit: number): Promise<boolean> {
+    const key = `${mint}:${timeframe}`;
+    const lastAttempt = this.backfilledAt.get(key);
+    if (lastAttempt && Date.now() - lastAttempt < this.options.backfillCooldownMs) {
+      return false;
+    }
+    this.backfilledAt.set(key, Date.now());
+
+    const candles = await this.birdeyeService.getOHLCV(mint, timeframe, limit);
+    if (candles.length === 0) {
+      return false;
+    }
+
+    await this.pool.query(`
+      INSERT INTO candles (
+        mint, timeframe, bucket_start, open, high, low, close, volume, trade_count,
+        first_tick_at, last_tick_at, source
+      )
+      SELECT $1, $2, c.bucket_start, c.open, c.high, c.low, c.close, c.volume, 0, c.bucket_start, c.bucket_start, 'provider'
+      FROM UNNEST($3::TIMESTAMPTZ[], $4::NUMERIC[], $5::NUMERIC[], $6::NUMERIC[], $7::NUMERIC[], $8::NUMERIC[])
+        AS c(bucket_start, open, high, low, close, volume)
+      ON CONFLICT (mint, timeframe, bucket_start) DO NOTHING
+    `, [
+      mint,
+      timeframe,
+      candles.map(c => c.timestamp),
+      candles.map(c => c.open),
+      candles.map(c => c.high),
+      candles.map(c => c.low),
+      candles.map(c => c.close),
+      candles.map(c => c.volume || 0)
+    ]);
+
+    this.logger.info(`Backfilled ${candles.length} ${timeframe} candles for ${mint}`);
+    return true;
+  }
+
+  private async loadCandles(mint: string, timeframe: string, startSeconds: number): Promise<Candle[]> {
+    const result = await this.pool.query(`
+      SELECT bucket_start, open, high, low, close, volume
+      FROM candles
+      WHERE mint = $1 AND timeframe = $2 AND bucket_start >= TO_TIMESTAMP($3)
+      ORDER BY bucket_start ASC
+    `, [mint, timeframe, startSeconds]);
+
+    return result.rows.map(row => ({
+      timestamp: row.bucket_start,
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      volume: parseFloat(row.volume)
+    }));
+  }
+
+  /**
+   * Carry the last close through empty buckets up to `endSeconds`. Buckets before the
+   * first known candle are left out.
+   */
+  private fillGaps(candles: Candle[], seconds: number, endSeconds: number): Candle[] {
+    if (candles.length === 0) return [];
+
+    const filled: Candle[] = [];
+    const bucketOf = (candle: Candle) => Math.floor(new Date(candle.timestamp).getTime() / 1000);
+    let index = 0;
+    let previous: Candle | null = null;
+
+    for (let bucket = bucketOf(candles[0]); bucket <= endSeconds; bucket += seconds) {
+      // Provider candles that don't line up with our buckets only serve as the previous close
+      let match: Candle | null = null;
+      while (index < candles.length && bucketOf(candles[index]) <= bucket) {
+        if (bucketOf(candles[index]) === bucket) {
+          match = candles[index];
+        } else {
+          previous = candles[index];
+        }
+        index++;
+      }
+
+      if (match) {
+        filled.push(match);
+        previous = match;
+      } else if (previous) {
+        filled.push({
+          timestamp: new Date(bucket * 1000),
+          open: previous.close,
+          high: previous.close,
+          low: previous.close,
+          close: previous.close,
+          volume: 0
+        });
+      }
+    }
+
+    return filled;
+  }
+
+  private async pruneCandles(): Promise<void> {
+    for (const [timeframe, days] of Object.entries(RETENTION_DAYS)) {
+      await this.pool.query(
+        `DELETE FROM candles WHERE timeframe = $1 AND bucket_start < NOW() - ($2 || ' days')::INTERVAL`,
+        [timeframe, days]
+      );
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import winston from 'winston';
+import { TIMEFRAME_SECONDS } from '../../config/trading';
+import { MarketDataSeries } from '../../types/trading';
+import { withIndicators } from '../../utils/indicators';
+import { DexScreenerService } from '../dataProviders/DexScreenerService';
+import { CandleStore } from './CandleStore';
+
+// Extra candles fetched ahead of the requested window so slow indicators (MACD) are warmed up
+const INDICATOR_WARMUP = 50;
+
+export class MarketDataService {
+  private logger: winston.Logger;
+  private candleStore: CandleStore;
+  private dexScreenerService: DexScreenerService;
+
+  constructor(
+    logger: winston.Logger,
+    candleStore: CandleStore,
+    dexScreenerService: DexScreenerService
+  ) {
+    this.logger = logger;
+    this.candleStore = candleStore;
+    this.dexScreenerService = dexScreenerService;
+  }
+
+  /**
+   * Get market data for a mint with indicator-enriched candles (prices in USD)
+   */
+  async getMarketData(mint: string, timeframe: string, limit: number): Promise<MarketDataSeries> {
+    if (!TIMEFRAME_SECONDS[timeframe]) {
+      throw new Error(`Unsupported timeframe: ${timeframe}`);
+    }
+
+    const [rawCandles, pairs] = await Promise.all([
+      this.candleStore.getCandles(mint, timeframe, limit + INDICATOR_WARMUP),
+      this.dexScreenerService.getTokenPairs(mint)
+    ]);
+
+    const candles = withIndicators(rawCandles).slice(-limit);
+    const latest = candles[candles.length - 1];
+
+    // Use the deepest pool for the snapshot fields
+    const pair = [...pairs].sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
+    const price = pair?.priceUsd ? parseFloat(pair.priceUsd) : latest?.close || 0;
+    const priceChangePercentage24h = pair?.priceChange?.h24 || 0;
+
+    return {
+      mint,
+      symbol: pair ? (pair.baseToken.address === mint ? pair.baseToken.symbol : pair.quoteToken.symbol) : '',
+      price,
+      priceChange24h: price - price / (1 + priceChangePercentage24h / 100),
+      priceChangePercentage24h,
+      volume24h: pair?.volume?.h24 || 0,
+      marketCap: pair?.fdv,
+      liquidity: pairs.reduce((total, p) => total + (p.liquidity?.usd || 0), 0),
+      rsi: latest?.rsi,
+      macd: latest?.macd,
+      bollinger: latest?.bollinger,
+      timestamp: new Date(),
+      timeframe,
+      candles
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { Pool } from 'pg';
+import winston from 'winston';
+import { PAPER_STARTING_BALANCE_SOL, SOL_MINT } from '../../config/trading';
+import { Order, PaperBalance, Quote, SwapResult } from '../../types/trading';
+import { JupiterService } from '../dataProviders/JupiterService';
+
+export class PaperTradingService {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private jupiterService: JupiterService;
+
+  constructor(pool: Pool, logger: winston.Logger, jupiterService: JupiterService) {
+    this.pool = pool;
+    this.logger = logger;
+    this.jupiterService = jupiterService;
+  }
+
+  /**
+   * Whether new orders and strategies for this user should be simulated
+   */
+  async isPaperMode(userId: string): Promise<boolean> {
+    const result = await this.pool.query('SELECT enabled FROM paper_accounts WHERE user_id = $1', [userId]);
+    return result.rows[0]?.enabled === true;
+  }
+
+  /**
+   * Switch a user between paper and live trading. The first switch to paper opens the
+   * account with the starting balance; later switches keep the existing balances.
+   */
+  async setPaperMode(userId: string, enabled: boolean): Promise<void> {
+    const result = await this.pool.query(`
+      INSERT INTO paper_accounts (user_id, enabled) VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE SET enabled = EXCLUDED.enabled, updated_at = NOW()
+      RETURNING (xmax = 0) AS created
+    `, [userId, enabled]);
+
+    if (result.rows[0].created) {
+      await this.resetAccount(userId);
+    }
+  }
+
+  /**
+   * Wipe a user's paper balances and credit the starting SOL balance again
+   */
+  async resetAccount(userId: string, startingBalance = PAPER_STARTING_BALANCE_SOL): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM paper_balances WHERE user_id = $1', [userId]);
+      await client.query(
+        'INSERT INTO paper_balances (user_id, mint, amount, cost_basis) VALUES ($1, $2, $3, $3)',
+        [userId, SOL_MINT, startingBalance]
+      );
+      await client.query('COMMIT');
+      this.logger.info(`Paper account for ${userId} reset to ${startingBalance} SOL`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a user's virtual balance sheet
+   */
+  async getBalances(userId: string): Promise<PaperBalance[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM paper_balances WHERE user_id = $1 AND amount > 0 ORDER BY mint',
+      [userId]
+    );
+
+    return result.rows.map(row => ({
+      mint: row.mint,
+      amount: parseFloat(row.amount),
+      costBasis: parseFloat(row.cost_basis),
+      updatedAt: row.updated_at
+    }));
+  }
+
+  /**
+   * Simulate a swap of `amount` (defaults to the order amount) against the quote for it. The
+   * fill receives the quote's output amount, as a live swap through the same route would, and
+   * the paper balances are debited and credited in one transaction. No transaction is sent.
+   */
+  async simulateSwap(order: Order, quote: Quote, amount = order.amount): Promise<SwapResult> {
+    const outputAmount = await this.jupiterService.toUiAmount(order.outputMint, quote.outAmount);
+    if (!(outputAmount > 0)) {
+      return { success: false, error: 'Quote has no output to fill' };
+    }
+
+    const priceImpact = parseFloat(quote.priceImpactPct) || 0;
+    const valueInSol = await this.getValueInSol(order.inputMint, amount, order.outputMint, outputAmount);
+    if (valueInSol === null) {
+      return { success: false, error: 'Unable to value simulated fill in SOL' };
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const balance = await client.query(
+        'SELECT amount, cost_basis FROM paper_balances WHERE user_id = $1 AND mint = $2 FOR UPDATE',
+        [order.userId, order.inputMint]
+      );
+      const available = parseFloat(balance.rows[0]?.amount || '0');
+      if (available < amount) {
+        await client.query('ROLLBACK');
+        return { success: false, error: `Insufficient paper balance: ${available} available, ${amount} required` };
+      }
+
+      // Cost basis leaves the input balance in proportion to the amount sold
+      const costBasis = parseFloat(balance.rows[0].cost_basis);
+      const costReleased = available > 0 ? costBasis * (amount / available) : 0;
+
+      await client.query(`
+        UPDATE paper_balances SET amount = amount - $3, cost_basis = cost_basis - $4, updated_at = NOW()
+        WHERE user_id = $1 AND mint = $2
+      `, [order.userId, order.inputMint, amount, costReleased]);
+
+      await client.query(`
+        INSERT INTO paper_balances (user_id, mint, amount, cost_basis) VALUES ($1, $2, $3, $4)
+        ON CONFLICT (user_id, mint) DO UPDATE SET
+          amount = paper_balances.amount + EXCLUDED.amount,
+          cost_basis = paper_balances.cost_basis + EXCLUDED.cost_basis,
+          updated_at = NOW()
+      `, [order.userId, order.outputMint, outputAmount, order.outputMint === SOL_MINT ? outputAmount : valueInSol]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.logger.error(`Error simulating swap for order ${order.id}:`, error);
+      return { success: false, error: error.message };
+    } finally {
+      client.release();
+    }
+
+    return {
+      success: true,
+      signature: `paper_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      fees: 0,
+      slippage: priceImpact,
+      outputAmount
+    };
+  }
+
+  // Private helper methods
+
+  private async getValueInSol(
+    inputMint: string,
+    inputAmount: number,
+    outputMint: string,
+    outputAmount: number
+  ): Promise<number | null> {
+    if (inputMint === SOL_MINT) return inputAmount;
+    if (outputMint === SOL_MINT) return outputAmount;
+
+    const price = await this.jupiterService.getTokenPrice(inputMint, SOL_MINT);
+    return price ? inputAmount * price : null;
+  }
+}
@@ -0,0 +1,580 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { Pool, PoolClient } from 'pg';
+import winston from 'winston';
+import { DEFAULT_COST_BASIS_METHOD, SOL_MINT } from '../../config/trading';
+import {
+  AccountMode,
+  CostBasisMethod,
+  OrderStatus,
+  OrderType,
+  Portfolio,
+  PortfolioCurrency,
+  Position,
+  Trade
+} from '../../types/trading';
+import { DexScreenerService } from '../dataProviders/DexScreenerService';
+import { JupiterService } from '../dataProviders/JupiterService';
+import { PaperTradingService } from '../paperTrading/PaperTradingService';
+
+// What a trade is worth, fixed at execution time so lots can be replayed later
+interface TradeValuation {
+  id: string;
+  userId: string;
+  isPaper: boolean;
+  inputMint: string;
+  outputMint: string;
+  inputAmount: number;
+  outputAmount: number;
+  executedAt: Date;
+  valueSol: number;
+  valueUsd: number | null;
+}
+
+interface OpenLot {
+  id: string;
+  remaining: number;
+  quantity: number;
+  costSol: number;
+  costUsd: number | null;
+  acquiredAt: Date;
+}
+
+interface ValuedPosition {
+  position: Position;
+  dailyPnl: number; // In the view's currency
+  priced: boolean; // False when no price was found and the position counts as worth nothing
+}
+
+// Prices used to value a view, in the view's currency
+interface ViewPrices {
+  solPrice: number; // 1 for the SOL view
+  tokenPrice(mint: string): Promise<number | null>;
+  change24h(mint: string): Promise<number>; // Fraction, in the view's currency
+}
+
+/**
+ * Tracks positions as tax lots. Every acquisition of a token opens a lot at its SOL and USD
+ * cost; every disposal closes lots in FIFO, LIFO or average-cost order and records the realized
+ * P&L. Live and paper accounts keep separate lots. Values are reported in SOL or USD.
+ */
+export class PortfolioManager {
+  private connection: Connection;
+  private pool: Pool;
+  private logger: winston.Logger;
+  private jupiterService: JupiterService;
+  private paperTradingService: PaperTradingService;
+  private dexScreenerService: DexScreenerService;
+
+  constructor(
+    connection: Connection,
+    pool: Pool,
+    logger: winston.Logger,
+    jupiterService: JupiterService,
+    paperTradingService: PaperTradingService,
+    dexScreenerService: DexScreenerService
+  ) {
+    this.connection = connection;
+    this.pool = pool;
+    this.logger = logger;
+    this.jupiterService = jupiterService;
+    this.paperTradingService = paperTradingService;
+    this.dexScreenerService = dexScreenerService;
+  }
+
+  /**
+   * Get a user's portfolio for the given account mode and currency
+   */
+  async getUserPortfolio(
+    userId: string,
+    mode: AccountMode = 'live',
+    currency: PortfolioCurrency = 'SOL'
+  ): Promise<Portfolio> {
+    const prices = await this.getViewPrices(currency);
+    const [valued, totals, cashSol, method] = await Promise.all([
+      this.buildPositions(userId, mode, currency, prices),
+      this.pool.query(`
+        SELECT
+          (SELECT COALESCE(SUM(${currency === 'USD' ? 'COALESCE(cost_usd, 0)' : 'cost_sol'}), 0)
+             FROM position_lots WHERE user_id = $1 AND is_paper = $2) AS total_cost,
+          (SELECT MIN(acquired_at) FROM position_lots WHERE user_id = $1 AND is_paper = $2) AS first_at,
+          COALESCE(SUM(${this.realizedExpression(currency)}), 0) AS realized,
+          COALESCE(SUM(${this.realizedExpression(currency)}) FILTER (WHERE disposed_at > NOW() - INTERVAL '1 day'), 0) AS realized_24h
+        FROM lot_disposals WHERE user_id = $1 AND is_paper = $2
+      `, [userId, mode === 'paper']),
+      this.getCashBalance(userId, mode),
+      this.getCostBasisMethod(userId)
+    ]);
+
+    const row = totals.rows[0];
+    const positions = valued.map(entry => entry.position);
+    const availableBalance = (cashSol ?? 0) * prices.solPrice;
+    const positionsValue = positions.reduce((sum, position) => sum + position.currentValue, 0);
+    const totalInvested = positions.reduce((sum, position) => sum + position.totalInvested, 0);
+    const unrealized = positions.reduce((sum, position) => sum + position.unrealizedPnl, 0);
+    const totalValue = positionsValue + availableBalance;
+    const totalPnl = parseFloat(row.realized) + unrealized;
+    const totalCost = parseFloat(row.total_cost);
+
+    const dailyPnl = parseFloat(row.realized_24h) + valued.reduce((sum, entry) => sum + entry.dailyPnl, 0);
+    const valueYesterday = totalValue - dailyPnl;
+
+    return {
+      id: `${mode}_${userId}`,
+      userId,
+      totalValue,
+      totalInvested,
+      availableBalance,
+      totalPnl,
+      totalPnlPercentage: totalCost > 0 ? (totalPnl / totalCost) * 100 : 0,
+      dailyPnl,
+      dailyPnlPercentage: valueYesterday > 0 ? (dailyPnl / valueYesterday) * 100 : 0,
+      positions,
+      currency,
+      costBasisMethod: method,
+      incomplete: cashSol === null || valued.some(entry => !entry.priced),
+      createdAt: row.first_at || new Date(),
+      lastUpdatedAt: new Date()
+    };
+  }
+
+  /**
+   * Get a user's open token positions for the given account mode and currency
+   */
+  async getUserPositions(
+    userId: string,
+    mode: AccountMode = 'live',
+    currency: PortfolioCurrency = 'SOL'
+  ): Promise<Position[]> {
+    const valued = await this.buildPositions(userId, mode, currency, await this.getViewPrices(currency));
+    return valued.map(entry => entry.position);
+  }
+
+  /**
+   * Book a fill: value it, open a lot for the token received and close lots for the token
+   * given up. The realized P&L is written back to the trade.
+   */
+  async updatePortfolioAfterTrade(trade: Trade): Promise<void> {
+    const valuation = await this.valueTrade(trade);
+    if (!valuation) {
+      this.logger.warn(`Unable to value trade ${trade.id}; portfolio lots not updated`);
+      return;
+    }
+
+    const method = await this.getCostBasisMethod(trade.userId);
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const realized = await this.applyTrade(client, valuation, method);
+      await client.query(
+        'UPDATE trades SET value_sol = $2, volume_usd = $3, profit_loss = $4 WHERE id = $1',
+        [trade.id, valuation.valueSol, valuation.valueUsd, realized]
+      );
+      // Delivered on commit; the socket gateway pushes the new portfolio to the user
+      await client.query("SELECT pg_notify('portfolio_updates', $1)", [
+        JSON.stringify({ userId: trade.userId, mode: valuation.isPaper ? 'paper' : 'live' })
+      ]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.logger.error(`Error updating portfolio after trade ${trade.id}:`, error);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the lot matching method used for a user's disposals
+   */
+  async getCostBasisMethod(userId: string): Promise<CostBasisMethod> {
+    const result = await this.pool.query('SELECT cost_basis_method FROM portfolio_settings WHERE user_id = $1', [userId]);
+    return result.rows[0]?.cost_basis_method || DEFAULT_COST_BASIS_METHOD;
+  }
+
+  /**
+   * Change a user's lot matching method. Lots are rebuilt from trade history so past
+   * disposals are restated under the new method.
+   */
+  async setCostBasisMethod(userId: string, method: CostBasisMethod): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO portfolio_settings (user_id, cost_basis_method) VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE SET cost_basis_method = EXCLUDED.cost_basis_method, updated_at = NOW()
+    `, [userId, method]);
+
+    await this.rebuildLots(userId, 'live');
+    await this.rebuildLots(userId, 'paper');
+  }
+
+  /**
+   * Replay a user's valued trades in order to rebuild their lots and realized P&L
+   */
+  async rebuildLots(userId: string, mode: AccountMode): Promise<void> {
+    const method = await this.getCostBasisMethod(userId);
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const count = await this.replayTrades(client, userId, mode, method);
+      await client.query('COMMIT');
+      this.logger.info(`Rebuilt ${mode} lots for ${userId} from ${count} trades using ${method}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Run `fn` against lots restated under another matching method without saving them.
+   * The restatement goes into temporary copies of position_lots and lot_disposals, which
+   * shadow the real tables on this connection only, so the user's real lots are never
+   * locked and `fn` can take as long as it likes. The copies are dropped afterwards.
+   */
+  async withRestatedLots<T>(
+    userId: string,
+    mode: AccountMode,
+    method: CostBasisMethod,
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('CREATE TEMP TABLE position_lots (LIKE position_lots INCLUDING DEFAULTS)');
+      await client.query('CREATE TEMP TABLE lot_disposals (LIKE lot_disposals INCLUDING DEFAULTS)');
+      await this.replayTrades(client, userId, mode, method, false);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query('DROP TABLE IF EXISTS pg_temp.position_lots, pg_temp.lot_disposals');
+        client.release();
+      } catch (error) {
+        // Never hand a connection with shadowing tables back to the pool
+        client.release(error);
+      }
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Clear a user's lots and disposals and book their valued trades again in order.
+   * recordPnl writes each trade's restated realized P&L back to it. Returns the number of
+   * trades replayed.
+   */
+  private async replayTrades(
+    client: PoolClient,
+    userId: string,
+    mode: AccountMode,
+    method: CostBasisMethod,
+    recordPnl = true
+  ): Promise<number> {
+    await client.query('DELETE FROM lot_disposals WHERE user_id = $1 AND is_paper = $2', [userId, mode === 'paper']);
+    await client.query('DELETE FROM position_lots WHERE user_id = $1 AND is_paper = $2', [userId, mode === 'paper']);
+
+    const trades = await client.query(`
+      SELECT * FROM trades
+      WHERE user_id = $1 AND is_simulated = $2 AND value_sol IS NOT NULL
+      ORDER BY executed_at ASC, id ASC
+    `, [userId, mode === 'paper']);
+
+    for (const row of trades.rows) {
+      const realized = await this.applyTrade(client, {
+        id: row.id,
+        userId,
+        isPaper: mode === 'paper',
+        inputMint: row.input_mint,
+        outputMint: row.output_mint,
+        inputAmount: parseFloat(row.input_amount),
+        outputAmount: parseFloat(row.output_amount),
+        executedAt: row.executed_at,
+        valueSol: parseFloat(row.value_sol),
+        valueUsd: row.volume_usd !== null ? parseFloat(row.volume_usd) : null
+      }, method);
+      if (recordPnl) {
+        await client.query('UPDATE trades SET profit_loss = $2 WHERE id = $1', [row.id, realized]);
+      }
+    }
+
+    return trades.rows.length;
+  }
+
+  /**
+   * Value a trade in SOL from whichever side is SOL, otherwise from the input token's price
+   */
+  private async valueTrade(trade: Trade): Promise<TradeValuation | null> {
+    let valueSol: number | null;
+    if (trade.inputMint === SOL_MINT) {
+      valueSol = trade.inputAmount;
+    } else if (trade.outputMint === SOL_MINT) {
+      valueSol = trade.outputAmount;
+    } else {
+      const price = await this.jupiterService.getTokenPrice(trade.inputMint, SOL_MINT);
+      valueSol = price ? trade.inputAmount * price : null;
+    }
+    if (valueSol === null) return null;
+
+    const solUsd = await this.jupiterService.getTokenPriceUsd(SOL_MINT);
+
+    return {
+      id: trade.id,
+      userId: trade.userId,
+      isPaper: !!trade.isSimulated,
+      inputMint: trade.inputMint,
+      outputMint: trade.outputMint,
+      inputAmount: trade.inputAmount,
+      outputAmount: trade.outputAmount,
+      executedAt: trade.executedAt,
+      valueSol,
+      valueUsd: solUsd ? valueSol * solUsd : null
+    };
+  }
+
+  /**
+   * Open a lot for the output token and close lots of the input token. SOL is the
+   * account's cash and is not tracked in lots. Returns the realized P&L in SOL.
+   */
+  private async applyTrade(client: PoolClient, trade: TradeValuation, method: CostBasisMethod): Promise<number> {
+    let realized = 0;
+
+    if (trade.inputMint !== SOL_MINT) {
+      realized = await this.closeLots(client, trade, method);
+    }
+
+    if (trade.outputMint !== SOL_MINT) {
+      await client.query(`
+        INSERT INTO position_lots (user_id, mint, is_paper, trade_id, quantity, remaining, cost_sol, cost_usd, acquired_at)
+        VALUES ($1, $2, $3, $4, $5, $5, $6, $7, $8)
+      `, [trade.userId, trade.outputMint, trade.isPaper, trade.id, trade.outputAmount, trade.valueSol, trade.valueUsd, trade.executedAt]);
+    }
+
+    return realized;
+  }
+
+  private async closeLots(client: PoolClient, trade: TradeValuation, method: CostBasisMethod): Promise<number> {
+    const result = await client.query(`
+      SELECT id, quantity, remaining, cost_sol, cost_usd, acquired_at FROM position_lots
+      WHERE user_id = $1 AND is_paper = $2 AND mint = $3 AND remaining > 0
+      ORDER BY acquired_at ${method === 'LIFO' ? 'DESC' : 'ASC'}, id ${method === 'LIFO' ? 'DESC' : 'ASC'}
+      FOR UPDATE
+    `, [trade.userId, trade.isPaper, trade.inputMint]);
+
+    const lots: OpenLot[] = result.rows.map(row => ({
+      id: row.id,
+      quantity: parseFloat(row.quantity),
+      remaining: parseFloat(row.remaining),
+      costSol: parseFloat(row.cost_sol),
+      costUsd: row.cost_usd !== null ? parseFloat(row.cost_usd) : null,
+      acquiredAt: row.acquired_at
+    }));
+
+    // How much of each lot this sale consumes
+    const held = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+    const consumed = new Map<string, number>();
+    if (method === 'AVERAGE') {
+      const share = held > 0 ? Math.min(1, trade.inputAmount / held) : 0;
+      lots.forEach(lot => consumed.set(lot.id, lot.remaining * share));
+    } else {
+      let left = trade.inputAmount;
+      for (const lot of lots) {
+        if (left <= 0) break;
+        const take = Math.min(lot.remaining, left);
+        consumed.set(lot.id, take);
+        left -= take;
+      }
+    }
+
+    const proceedsPerUnitSol = trade.valueSol / trade.inputAmount;
+    const proceedsPerUnitUsd = trade.valueUsd !== null ? trade.valueUsd / trade.inputAmount : null;
+    let realized = 0;
+    let matched = 0;
+
+    for (const lot of lots) {
+      const quantity = consumed.get(lot.id) || 0;
+      if (quantity <= 0) continue;
+
+      const costSol = lot.costSol * (quantity / lot.quantity);
+      const costUsd = lot.costUsd !== null ? lot.costUsd * (quantity / lot.quantity) : null;
+      const proceedsSol = quantity * proceedsPerUnitSol;
+      realized += proceedsSol - costSol;
+      matched += quantity;
+
+      await client.query('UPDATE position_lots SET remaining = GREATEST(remaining - $2, 0) WHERE id = $1', [lot.id, quantity]);
+      await this.recordDisposal(client, trade, lot.id, quantity, costSol, costUsd, proceedsSol,
+        proceedsPerUnitUsd !== null ? quantity * proceedsPerUnitUsd : null, lot.acquiredAt);
+    }
+
+    // Tokens acquired outside the platform have no known cost; book them at zero cost
+    const unmatched = trade.inputAmount - matched;
+    if (unmatched > trade.inputAmount * 1e-9) {
+      this.logger.warn(`Trade ${trade.id} sold ${unmatched} ${trade.inputMint} with no recorded lots`);
+      const proceedsSol = unmatched * proceedsPerUnitSol;
+      realized += proceedsSol;
+      await this.recordDisposal(client, trade, null, unmatched, 0, 0, proceedsSol,
+        proceedsPerUnitUsd !== null ? unmatched * proceedsPerUnitUsd : null, null);
+    }
+
+    return realized;
+  }
+
+  private async recordDisposal(
+    client: PoolClient,
+    trade: TradeValuation,
+    lotId: string | null,
+    quantity: number,
+    costSol: number,
+    costUsd: number | null,
+    proceedsSol: number,
+    proceedsUsd: number | null,
+    acquiredAt: Date | null
+  ): Promise<void> {
+    await client.query(`
+      INSERT INTO lot_disposals (
+        user_id, mint, is_paper, trade_id, lot_id, quantity, cost_sol, cost_usd,
+        proceeds_sol, proceeds_usd, acquired_at, disposed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `, [
+      trade.userId, trade.inputMint, trade.isPaper, trade.id, lotId, quantity, costSol, costUsd,
+      proceedsSol, proceedsUsd, acquiredAt, trade.executedAt
+    ]);
+  }
+
+  private async buildPositions(
+    userId: string,
+    mode: AccountMode,
+    currency: PortfolioCurrency,
+    prices: ViewPrices
+  ): Promise<ValuedPosition[]> {
+    const cost = currency === 'USD' ? 'COALESCE(cost_usd, 0)' : 'cost_sol';
+    const [lots, realized, exits] = await Promise.all([
+      this.pool.query(`
+        SELECT mint,
+               SUM(remaining) AS size,
+               SUM(${cost} * remaining / quantity) AS invested,
+               SUM(remaining) FILTER (WHERE acquired_at <= NOW() - INTERVAL '1 day') AS size_before_today,
+               COALESCE(SUM(${cost} * remaining / quantity) FILTER (WHERE acquired_at > NOW() - INTERVAL '1 day'), 0) AS invested_today,
+               COALESCE(SUM(remaining) FILTER (WHERE acquired_at > NOW() - INTERVAL '1 day'), 0) AS size_today,
+               MIN(acquired_at) AS first_at,
+               MAX(acquired_at) AS last_at
+        FROM position_lots
+        WHERE user_id = $1 AND is_paper = $2 AND remaining > 0
+        GROUP BY mint
+      `, [userId, mode === 'paper']),
+      this.pool.query(`
+        SELECT mint, SUM(${this.realizedExpression(currency)}) AS realized, MAX(disposed_at) AS last_at
+        FROM lot_disposals WHERE user_id = $1 AND is_paper = $2
+        GROUP BY mint
+      `, [userId, mode === 'paper']),
+      this.pool.query(`
+        SELECT DISTINCT ON (input_mint, type) input_mint, type, stop_price, take_profit_price, limit_price, trailing_stop_percentage
+        FROM orders
+        WHERE user_id = $1 AND is_paper = $2 AND side = 'sell' AND status = ANY($3) AND type = ANY($4)
+        ORDER BY input_mint, type, created_at DESC
+      `, [
+        userId,
+        mode === 'paper',
+        [OrderStatus.PENDING, OrderStatus.WAITING],
+        [OrderType.STOP_LOSS, OrderType.TAKE_PROFIT, OrderType.TRAILING_STOP]
+      ])
+    ]);
+
+    const realizedByMint = new Map<string, any>(realized.rows.map(row => [row.mint, row]));
+    const positions: ValuedPosition[] = [];
+
+    for (const row of lots.rows) {
+      const size = parseFloat(row.size);
+      const totalInvested = parseFloat(row.invested);
+      const price = await prices.tokenPrice(row.mint);
+      const currentValue = price !== null ? size * price : 0;
+      const unrealizedPnl = price !== null ? currentValue - totalInvested : 0;
+
+      // Lots held since yesterday moved with the price; newer lots moved from their cost
+      let dailyPnl = 0;
+      if (price !== null) {
+        const priceYesterday = price / (1 + await prices.change24h(row.mint));
+        const sizeBeforeToday = parseFloat(row.size_before_today) || 0;
+        dailyPnl = sizeBeforeToday * (price - priceYesterday) +
+          (parseFloat(row.size_today) * price - parseFloat(row.invested_today));
+      }
+
+      const exitOrders = exits.rows.filter(order => order.input_mint === row.mint);
+      const exitPrice = (type: OrderType, column: string) => {
+        const order = exitOrders.find(candidate => candidate.type === type);
+        return order?.[column] !== null && order?.[column] !== undefined ? parseFloat(order[column]) : undefined;
+      };
+      const mintRealized = realizedByMint.get(row.mint);
+
+      positions.push({
+        dailyPnl,
+        priced: price !== null,
+        position: {
+          id: `${mode}_${userId}_${row.mint}`,
+          userId,
+          mint: row.mint,
+          symbol: '',
+          size,
+          averagePrice: size > 0 ? totalInvested / size : 0,
+          totalInvested,
+          currentValue,
+          unrealizedPnl,
+          unrealizedPnlPercentage: totalInvested > 0 ? (unrealizedPnl / totalInvested) * 100 : 0,
+          realizedPnl: mintRealized ? parseFloat(mintRealized.realized) : 0,
+          firstPurchaseAt: row.first_at,
+          lastUpdatedAt: mintRealized && mintRealized.last_at > row.last_at ? mintRealized.last_at : row.last_at,
+          stopLossPrice: exitPrice(OrderType.STOP_LOSS, 'stop_price'),
+          takeProfitPrice: exitPrice(OrderType.TAKE_PROFIT, 'take_profit_price') ?? exitPrice(OrderType.TAKE_PROFIT, 'limit_price'),
+          trailingStopPercentage: exitPrice(OrderType.TRAILING_STOP, 'trailing_stop_percentage')
+        }
+      });
+    }
+
+    return positions;
+  }
+
+  private realizedExpression(currency: PortfolioCurrency): string {
+    return currency === 'USD'
+      ? 'COALESCE(proceeds_usd, 0) - COALESCE(cost_usd, 0)'
+      : 'proceeds_sol - cost_sol';
+  }
+
+  /**
+   * Price lookups for a view. DexScreener's 24h changes are in USD, so for the SOL view a
+   * token's change is taken relative to SOL's own move.
+   */
+  private async getViewPrices(currency: PortfolioCurrency): Promise<ViewPrices> {
+    const usdChange = async (mint: string) => ((await this.dexScreenerService.getPriceChange24h(mint)) || 0) / 100;
+
+    if (currency === 'USD') {
+      return {
+        solPrice: (await this.jupiterService.getTokenPriceUsd(SOL_MINT)) || 0,
+        tokenPrice: mint => this.jupiterService.getTokenPriceUsd(mint),
+        change24h: usdChange
+      };
+    }
+
+    const solChange = await usdChange(SOL_MINT);
+    return {
+      solPrice: 1,
+      tokenPrice: mint => this.jupiterService.getTokenPrice(mint, SOL_MINT),
+      change24h: async mint => (1 + await usdChange(mint)) / (1 + solChange) - 1
+    };
+  }
+
+  /**
+   * SOL cash: the paper SOL balance, or the SOL held in the user's wallet. Null when the
+   * wallet balance cannot be read.
+   */
+  private async getCashBalance(userId: string, mode: AccountMode): Promise<number | null> {
+    if (mode === 'paper') {
+      const balances = await this.paperTradingService.getBalances(userId);
+      return balances.find(balance => balance.mint === SOL_MINT)?.amount || 0;
+    }
+
+    try {
+      const result = await this.pool.query('SELECT wallet FROM users WHERE id = $1', [userId]);
+      if (!result.rows[0]?.wallet) return 0;
+      const lamports = await this.connection.getBalance(new PublicKey(result.rows[0].wallet));
+      return lamports / LAMPORTS_PER_SOL;
+    } catch (error) {
+      this.logger.warn(`Unable to read SOL balance for ${userId}: ${error.message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import { Pool } from 'pg';
+import winston from 'winston';
+import { PERIOD_DAYS, SOL_MINT } from '../../config/trading';
+import { AccountMode, EquityPoint, PortfolioCurrency, PortfolioPerformance } from '../../types/trading';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { JupiterService } from '../dataProviders/JupiterService';
+import { PortfolioManager } from './PortfolioManager';
+
+// Equity curves are downsampled to at most this many points
+const MAX_CURVE_POINTS = 200;
+
+/**
+ * Records each user's portfolio value on a schedule and turns the history into equity
+ * curves, period returns, drawdowns and a hold-SOL benchmark
+ */
+export class PortfolioSnapshotService {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private portfolioManager: PortfolioManager;
+  private jupiterService: JupiterService;
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    pool: Pool,
+    logger: winston.Logger,
+    portfolioManager: PortfolioManager,
+    jupiterService: JupiterService
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.portfolioManager = portfolioManager;
+    this.jupiterService = jupiterService;
+  }
+
+  /**
+   * Start taking snapshots
+   */
+  start(tickMs = 60 * 60 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.takeSnapshots(), tickMs);
+    this.logger.info(`Portfolio snapshots started (every ${tickMs}ms)`);
+  }
+
+  /**
+   * Stop taking snapshots
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Snapshot every account that has traded or holds a paper balance
+   */
+  async takeSnapshots(): Promise<number> {
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    try {
+      const accounts = await this.pool.query(`
+        SELECT DISTINCT user_id, is_simulated AS is_paper FROM trades
+        UNION
+        SELECT user_id, TRUE FROM paper_accounts WHERE enabled = TRUE
+      `);
+      const solPriceUsd = await this.jupiterService.getTokenPriceUsd(SOL_MINT);
+
+      let taken = 0;
+      await mapWithConcurrency(accounts.rows, 3, async (row: any) => {
+        try {
+          if (await this.takeSnapshot(row.user_id, row.is_paper ? 'paper' : 'live', solPriceUsd)) {
+            taken++;
+          }
+        } catch (error) {
+          this.logger.error(`Error taking portfolio snapshot for ${row.user_id}:`, error);
+        }
+      });
+
+      this.logger.info(`Took ${taken} portfolio snapshots`);
+      return taken;
+    } catch (error) {
+      this.logger.error('Error taking portfolio snapshots:', error);
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Record one account's current value in SOL, with the SOL/USD rate for USD views. Skipped
+   * when the cash balance or a position cannot be valued, since the understated value would
+   * show up as a drawdown. Returns whether a snapshot was recorded.
+   */
+  async takeSnapshot(userId: string, mode: AccountMode, solPriceUsd: number | null): Promise<boolean> {
+    const portfolio = await this.portfolioManager.getUserPortfolio(userId, mode, 'SOL');
+    if (portfolio.incomplete) {
+      this.logger.warn(`Skipping ${mode} portfolio snapshot for ${userId}: not every holding could be valued`);
+      return false;
+    }
+
+    await this.pool.query(`
+      INSERT INTO portfolio_snapshots (
+        user_id, is_paper, total_value, total_invested, available_balance, sol_price_usd, positions
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      userId,
+      mode === 'paper',
+      portfolio.totalValue,
+      portfolio.totalInvested,
+      portfolio.availableBalance,
+      solPriceUsd,
+      JSON.stringify(portfolio.positions.map(position => ({
+        mint: position.mint,
+        size: position.size,
+        value: position.currentValue,
+        invested: position.totalInvested
+      })))
+    ]);
+    return true;
+  }
+
+  /**
+   * Equity curve and return statistics over a period. Returns are simple value returns,
+   * so deposits and withdrawals during the period show up as gains and losses.
+   */
+  async getPortfolioPerformance(
+    userId: string,
+    period: string,
+    mode: AccountMode = 'live',
+    currency: PortfolioCurrency = 'SOL'
+  ): Promise<PortfolioPerformance> {
+    const days = PERIOD_DAYS[period] || 30;
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+    const bucketSeconds = Math.max(1, Math.floor((days * 24 * 60 * 60) / MAX_CURVE_POINTS));
+
+    // Last snapshot in each bucket
+    const result = await this.pool.query(`
+      SELECT DISTINCT ON (bucket) taken_at, total_value, total_invested, sol_price_usd
+      FROM (
+        SELECT *, FLOOR(EXTRACT(EPOCH FROM taken_at) / $4) AS bucket
+        FROM portfolio_snapshots
+        WHERE user_id = $1 AND is_paper = $2 AND taken_at >= $3
+      ) snapshots
+      ORDER BY bucket, taken_at DESC
+    `, [userId, mode === 'paper', startDate, bucketSeconds]);
+
+    // Snapshots without a SOL/USD rate cannot be shown in USD
+    const rows = currency === 'USD' ? result.rows.filter(row => row.sol_price_usd !== null) : result.rows;
+    const rate = (row: any) => currency === 'USD' ? parseFloat(row.sol_price_usd) : 1;
+
+    const equityCurve: EquityPoint[] = [];
+    if (rows.length > 0) {
+      const startValue = parseFloat(rows[0].total_value) * rate(rows[0]);
+      const startRate = rate(rows[0]);
+      for (const row of rows) {
+        equityCurve.push({
+          timestamp: row.taken_at,
+          value: parseFloat(row.total_value) * rate(row),
+          invested: parseFloat(row.total_invested) * rate(row),
+          benchmarkValue: startValue * (rate(row) / startRate)
+        });
+      }
+    }
+
+    const first = equityCurve[0];
+    const last = equityCurve[equityCurve.length - 1];
+    const periodReturn = first && first.value > 0 ? ((last.value - first.value) / first.value) * 100 : 0;
+    const benchmarkReturn = first && first.benchmarkValue > 0
+      ? ((last.benchmarkValue - first.benchmarkValue) / first.benchmarkValue) * 100
+      : 0;
+    const drawdown = this.getMaxDrawdown(equityCurve);
+
+    return {
+      period,
+      mode,
+      currency,
+      startDate: first?.timestamp || startDate,
+      endDate: last?.timestamp || endDate,
+      equityCurve,
+      startValue: first?.value || 0,
+      endValue: last?.value || 0,
+      periodReturn,
+      maxDrawdown: drawdown.percentage,
+      maxDrawdownPeakAt: drawdown.peakAt,
+      maxDrawdownTroughAt: drawdown.troughAt,
+      benchmarkReturn,
+      excessReturn: periodReturn - benchmarkReturn
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Largest fall from a running peak, in percent of the peak
+   */
+  private getMaxDrawdown(curve: EquityPoint[]): { percentage: number; peakAt?: Date; troughAt?: Date } {
+    let peak: EquityPoint | undefined;
+    let worst: { percentage: number; peakAt?: Date; troughAt?: Date } = { percentage: 0 };
+
+    for (const point of curve) {
+      if (!peak || point.value > peak.value) {
+        peak = point;
+        continue;
+      }
+      if (peak.value > 0) {
+        const percentage = ((peak.value - point.value) / peak.value) * 100;
+        if (percentage > worst.percentage) {
+          worst = { percentage, peakAt: peak.timestamp, troughAt: point.timestamp };
+        }
+      }
+    }
+
+    return worst;
+  }
+}
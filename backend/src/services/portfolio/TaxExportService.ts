@@ -0,0 +1,235 @@
+import { Pool, PoolClient } from 'pg';
+import winston from 'winston';
+import { SOL_MINT } from '../../config/trading';
+import { CostBasisMethod, TaxExportFormat, TaxExportOptions } from '../../types/trading';
+import { PortfolioManager } from './PortfolioManager';
+
+// Rows fetched per query while streaming
+const BATCH_SIZE = 500;
+
+const HEADERS: Record<TaxExportFormat, string[]> = {
+  csv: [
+    'Disposed At', 'Acquired At', 'Holding Days', 'Asset', 'Mint', 'Quantity',
+    'Proceeds SOL', 'Cost Basis SOL', 'Gain/Loss SOL', 'Fee SOL',
+    'Proceeds USD', 'Cost Basis USD', 'Gain/Loss USD', 'Fee USD',
+    'Cost Basis Method', 'Trade ID', 'Signature'
+  ],
+  koinly: [
+    'Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency',
+    'Fee Amount', 'Fee Currency', 'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash'
+  ],
+  cointracker: [
+    'Date', 'Received Quantity', 'Received Currency', 'Sent Quantity', 'Sent Currency',
+    'Fee Amount', 'Fee Currency', 'Tag'
+  ]
+};
+
+type Querier = Pool | PoolClient;
+type Writer = (chunk: string) => Promise<void>;
+
+/**
+ * Writes a user's trading history as CSV for tax reporting. The generic layout has one row
+ * per lot disposal with cost basis and gain in SOL and USD. The importer layouts list every
+ * trade instead, since Koinly and CoinTracker match lots themselves.
+ */
+export class TaxExportService {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private portfolioManager: PortfolioManager;
+
+  constructor(pool: Pool, logger: winston.Logger, portfolioManager: PortfolioManager) {
+    this.pool = pool;
+    this.logger = logger;
+    this.portfolioManager = portfolioManager;
+  }
+
+  /**
+   * Stream the export through `write` in batches. Returns the number of rows written.
+   */
+  async export(userId: string, options: TaxExportOptions, write: Writer): Promise<number> {
+    await write(this.toCsvLine(HEADERS[options.format]));
+
+    if (options.format !== 'csv') {
+      return this.writeTrades(this.pool, userId, options, write);
+    }
+
+    const userMethod = await this.portfolioManager.getCostBasisMethod(userId);
+    const method = options.method || userMethod;
+    if (method === userMethod) {
+      return this.writeDisposals(this.pool, userId, options, method, write);
+    }
+
+    this.logger.info(`Restating ${options.mode} lots for ${userId} under ${method} for export`);
+    return this.portfolioManager.withRestatedLots(userId, options.mode, method, client =>
+      this.writeDisposals(client, userId, options, method, write)
+    );
+  }
+
+  // Private helper methods
+
+  private async writeDisposals(
+    db: Querier,
+    userId: string,
+    options: TaxExportOptions,
+    method: CostBasisMethod,
+    write: Writer
+  ): Promise<number> {
+    let cursor: { disposedAt: Date; id: string } | null = null;
+    let count = 0;
+
+    for (;;) {
+      const result: { rows: any[] } = await db.query(`
+        SELECT d.*, t.signature, t.fees, t.input_amount AS trade_input_amount, t.value_sol, t.volume_usd,
+          t.input_symbol AS symbol
+        FROM lot_disposals d
+        LEFT JOIN trades t ON t.id = d.trade_id
+        WHERE d.user_id = $1 AND d.is_paper = $2
+          AND ($3::TIMESTAMPTZ IS NULL OR d.disposed_at >= $3)
+          AND ($4::TIMESTAMPTZ IS NULL OR d.disposed_at < $4)
+          AND ($5::TIMESTAMPTZ IS NULL OR (d.disposed_at, d.id) > ($5, $6::BIGINT))
+        ORDER BY d.disposed_at ASC, d.id ASC
+        LIMIT $7
+      `, [
+        userId, options.mode === 'paper', options.from || null, options.to || null,
+        cursor?.disposedAt || null, cursor?.id || null, BATCH_SIZE
+      ]);
+
+      if (result.rows.length === 0) break;
+
+      await write(result.rows.map(row => this.toCsvLine(this.disposalColumns(row, method))).join(''));
+      count += result.rows.length;
+
+      const last = result.rows[result.rows.length - 1];
+      cursor = { disposedAt: last.disposed_at, id: last.id };
+      if (result.rows.length < BATCH_SIZE) break;
+    }
+
+    return count;
+  }
+
+  private async writeTrades(db: Querier, userId: string, options: TaxExportOptions, write: Writer): Promise<number> {
+    let cursor: { executedAt: Date; id: string } | null = null;
+    let count = 0;
+
+    for (;;) {
+      const result: { rows: any[] } = await db.query(`
+        SELECT * FROM trades
+        WHERE user_id = $1 AND is_simulated = $2 AND status = 'completed'
+          AND ($3::TIMESTAMPTZ IS NULL OR executed_at >= $3)
+          AND ($4::TIMESTAMPTZ IS NULL OR executed_at < $4)
+          AND ($5::TIMESTAMPTZ IS NULL OR (executed_at, id::TEXT) > ($5, $6::TEXT))
+        ORDER BY executed_at ASC, id::TEXT ASC
+        LIMIT $7
+      `, [
+        userId, options.mode === 'paper', options.from || null, options.to || null,
+        cursor?.executedAt || null, cursor?.id || null, BATCH_SIZE
+      ]);
+
+      if (result.rows.length === 0) break;
+
+      const columns = options.format === 'koinly'
+        ? (row: any) => this.koinlyColumns(row)
+        : (row: any) => this.coinTrackerColumns(row);
+      await write(result.rows.map(row => this.toCsvLine(columns(row))).join(''));
+      count += result.rows.length;
+
+      const last = result.rows[result.rows.length - 1];
+      cursor = { executedAt: last.executed_at, id: last.id };
+      if (result.rows.length < BATCH_SIZE) break;
+    }
+
+    return count;
+  }
+
+  private disposalColumns(row: any, method: CostBasisMethod): Array<string | number | null> {
+    const quantity = parseFloat(row.quantity);
+    const costSol = parseFloat(row.cost_sol);
+    const proceedsSol = parseFloat(row.proceeds_sol);
+    const costUsd = row.cost_usd !== null ? parseFloat(row.cost_usd) : null;
+    const proceedsUsd = row.proceeds_usd !== null ? parseFloat(row.proceeds_usd) : null;
+
+    // The trade's network fee is split across its disposals by quantity
+    const tradeInput = parseFloat(row.trade_input_amount);
+    const feeSol = row.fees !== null && tradeInput > 0 ? parseFloat(row.fees) * (quantity / tradeInput) : null;
+    const solUsd = this.getSolUsdRate(row);
+
+    const disposedAt = new Date(row.disposed_at);
+    const acquiredAt = row.acquired_at ? new Date(row.acquired_at) : null;
+
+    return [
+      disposedAt.toISOString(),
+      acquiredAt ? acquiredAt.toISOString() : null,
+      acquiredAt ? Math.floor((disposedAt.getTime() - acquiredAt.getTime()) / (24 * 60 * 60 * 1000)) : null,
+      row.symbol || row.mint,
+      row.mint,
+      quantity,
+      proceedsSol,
+      costSol,
+      proceedsSol - costSol,
+      feeSol,
+      proceedsUsd,
+      costUsd,
+      proceedsUsd !== null && costUsd !== null ? proceedsUsd - costUsd : null,
+      feeSol !== null && solUsd !== null ? feeSol * solUsd : null,
+      method,
+      row.trade_id,
+      row.signature
+    ];
+  }
+
+  private koinlyColumns(row: any): Array<string | number | null> {
+    return [
+      new Date(row.executed_at).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC'),
+      parseFloat(row.input_amount),
+      this.getCurrency(row.input_mint, row.input_symbol),
+      parseFloat(row.output_amount),
+      this.getCurrency(row.output_mint, row.output_symbol),
+      parseFloat(row.fees) || null,
+      parseFloat(row.fees) ? 'SOL' : null,
+      row.volume_usd !== null ? parseFloat(row.volume_usd) : null,
+      row.volume_usd !== null ? 'USD' : null,
+      null,
+      `${row.side} ${row.id}`,
+      row.signature
+    ];
+  }
+
+  private coinTrackerColumns(row: any): Array<string | number | null> {
+    const date = new Date(row.executed_at);
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return [
+      `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()} ` +
+        `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`,
+      parseFloat(row.output_amount),
+      this.getCurrency(row.output_mint, row.output_symbol),
+      parseFloat(row.input_amount),
+      this.getCurrency(row.input_mint, row.input_symbol),
+      parseFloat(row.fees) || null,
+      parseFloat(row.fees) ? 'SOL' : null,
+      null
+    ];
+  }
+
+  /**
+   * SOL/USD rate at the time of the trade, implied by its SOL and USD valuations
+   */
+  private getSolUsdRate(row: any): number | null {
+    const valueSol = parseFloat(row.value_sol);
+    const volumeUsd = parseFloat(row.volume_usd);
+    return valueSol > 0 && !isNaN(volumeUsd) ? volumeUsd / valueSol : null;
+  }
+
+  private getCurrency(mint: string, symbol?: string | null): string {
+    if (mint === SOL_MINT) return 'SOL';
+    return symbol || mint;
+  }
+
+  private toCsvLine(values: Array<string | number | null>): string {
+    return values.map(value => {
+      if (value === null || value === undefined) return '';
+      const text = String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(',') + '\n';
+  }
+}
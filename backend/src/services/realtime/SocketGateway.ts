@@ -0,0 +1,304 @@
+import { Notification, Pool, PoolClient } from 'pg';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import winston from 'winston';
+import { AuthMiddleware } from '../../middleware/auth';
+import {
+  AccountMode,
+  OrderStatus,
+  OrderUpdateMessage,
+  PortfolioUpdateMessage,
+  PriceUpdateMessage,
+  Trade
+} from '../../types/trading';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { DexScreenerService } from '../dataProviders/DexScreenerService';
+import { JupiterService } from '../dataProviders/JupiterService';
+import { PortfolioManager } from '../portfolio/PortfolioManager';
+import { OrderExecutionService } from '../tradingEngine/OrderExecutionService';
+
+export interface SocketGatewayOptions {
+  priceIntervalMs: number; // How often subscribed mints are polled
+  changeTtlMs: number; // 24h change is refreshed less often than the price
+  maxSubscriptions: number; // Price subscriptions allowed per socket
+  concurrency: number; // Price requests in flight at once
+  reconnectMs: number; // Delay before re-listening after the notification connection drops
+}
+
+const DEFAULT_OPTIONS: SocketGatewayOptions = {
+  priceIntervalMs: 5 * 1000,
+  changeTtlMs: 60 * 1000,
+  maxSubscriptions: 50,
+  concurrency: 3,
+  reconnectMs: 5 * 1000
+};
+
+const USER_ROOM_PREFIX = 'user:';
+const PRICE_ROOM_PREFIX = 'price:';
+
+/**
+ * True for rooms owned by the gateway, which clients must not join directly
+ */
+export function isReservedRoom(room: string): boolean {
+  return room.startsWith(USER_ROOM_PREFIX) || room.startsWith(PRICE_ROOM_PREFIX) || room === 'arbitrage';
+}
+
+/**
+ * Live trading streams over Socket.IO. Connections that present a JWT join their own
+ * user room and receive order_update and portfolio_update messages. These are driven by
+ * Postgres notifications, so they only go out once the change has committed. Any client
+ * can subscribe to price_update for a list of mints. Each mint is polled once per interval
+ * however many clients watch it.
+ */
+export class SocketGateway {
+  private io: SocketIOServer;
+  private pool: Pool;
+  private logger: winston.Logger;
+  private authMiddleware: AuthMiddleware;
+  private orderExecutionService: OrderExecutionService;
+  private portfolioManager: PortfolioManager;
+  private jupiterService: JupiterService;
+  private dexScreenerService: DexScreenerService;
+  private options: SocketGatewayOptions;
+  private listener?: PoolClient;
+  private timer?: NodeJS.Timeout;
+  private isPolling = false;
+  private stopped = false;
+  private lastPrices = new Map<string, PriceUpdateMessage>();
+  private changes = new Map<string, { change24h: number; fetchedAt: number }>();
+
+  constructor(
+    io: SocketIOServer,
+    pool: Pool,
+    logger: winston.Logger,
+    authMiddleware: AuthMiddleware,
+    orderExecutionService: OrderExecutionService,
+    portfolioManager: PortfolioManager,
+    jupiterService: JupiterService,
+    dexScreenerService: DexScreenerService,
+    options: Partial<SocketGatewayOptions> = {}
+  ) {
+    this.io = io;
+    this.pool = pool;
+    this.logger = logger;
+    this.authMiddleware = authMiddleware;
+    this.orderExecutionService = orderExecutionService;
+    this.portfolioManager = portfolioManager;
+    this.jupiterService = jupiterService;
+    this.dexScreenerService = dexScreenerService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Authenticate connections, listen for database notifications and start the price poll
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+
+    // A token is optional so chat keeps working anonymously, but a bad one is refused
+    this.io.use(async (socket, next) => {
+      const token = socket.handshake.auth?.token;
+      if (!token) return next();
+
+      try {
+        const user = await this.authMiddleware.verifyToken(token);
+        if (!user) return next(new Error('Invalid token'));
+        socket.data.userId = user.id;
+        next();
+      } catch (error) {
+        this.logger.error('Error authenticating socket:', error);
+        next(new Error('Authentication failed'));
+      }
+    });
+
+    this.io.on('connection', socket => this.handleConnection(socket));
+
+    await this.listen();
+    this.timer = setInterval(() => this.pollPrices(), this.options.priceIntervalMs);
+    this.logger.info('Socket gateway started');
+  }
+
+  /**
+   * Stop the price poll and release the notification connection
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.listener) {
+      this.listener.release(true); // Destroy rather than return a LISTENing connection to the pool
+      this.listener = undefined;
+    }
+  }
+
+  /**
+   * Poll every subscribed mint once and push the price to its subscribers
+   */
+  async pollPrices(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const rooms = this.io.sockets.adapter.rooms;
+      const mints = [...rooms.keys()]
+        .filter(room => room.startsWith(PRICE_ROOM_PREFIX))
+        .map(room => room.slice(PRICE_ROOM_PREFIX.length));
+
+      // Forget mints nobody watches any more
+      for (const mint of this.lastPrices.keys()) {
+        if (!mints.includes(mint)) {
+          this.lastPrices.delete(mint);
+          this.changes.delete(mint);
+        }
+      }
+
+      await mapWithConcurrency(mints, this.options.concurrency, async mint => {
+        try {
+          const price = await this.jupiterService.getTokenPriceUsd(mint);
+          if (price === null) return;
+
+          const message: PriceUpdateMessage = {
+            type: 'price_update',
+            data: { mint, price, change24h: await this.getChange24h(mint) },
+            timestamp: new Date()
+          };
+          this.lastPrices.set(mint, message);
+          this.io.to(PRICE_ROOM_PREFIX + mint).emit(message.type, message);
+        } catch (error) {
+          this.logger.error(`Error streaming price for ${mint}:`, error);
+        }
+      });
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  // Private helper methods
+
+  private handleConnection(socket: Socket): void {
+    const userId: string | undefined = socket.data.userId;
+    if (userId) {
+      socket.join(USER_ROOM_PREFIX + userId);
+    }
+
+    socket.on('subscribe_prices', (mints: unknown) => {
+      const requested = this.parseMints(mints);
+      const current = [...socket.rooms].filter(room => room.startsWith(PRICE_ROOM_PREFIX)).length;
+      const allowed = requested.slice(0, Math.max(0, this.options.maxSubscriptions - current));
+      if (allowed.length < requested.length) {
+        socket.emit('error', { message: `At most ${this.options.maxSubscriptions} price subscriptions per connection` });
+      }
+
+      for (const mint of allowed) {
+        socket.join(PRICE_ROOM_PREFIX + mint);
+
+        // Send the latest price straight away rather than waiting for the next poll
+        const last = this.lastPrices.get(mint);
+        if (last) socket.emit(last.type, last);
+      }
+    });
+
+    socket.on('unsubscribe_prices', (mints: unknown) => {
+      for (const mint of this.parseMints(mints)) {
+        socket.leave(PRICE_ROOM_PREFIX + mint);
+      }
+    });
+
+    socket.on('subscribe_arbitrage', () => socket.join('arbitrage'));
+    socket.on('unsubscribe_arbitrage', () => socket.leave('arbitrage'));
+  }
+
+  /**
+   * Hold a dedicated connection that LISTENs for order and portfolio changes
+   */
+  private async listen(): Promise<void> {
+    try {
+      const client = await this.pool.connect();
+      client.on('notification', notification => this.handleNotification(notification));
+      client.on('error', error => {
+        this.logger.error('Notification connection lost:', error);
+        client.release(error);
+        if (this.listener === client) this.listener = undefined;
+        this.scheduleReconnect();
+      });
+
+      await client.query('LISTEN order_events');
+      await client.query('LISTEN portfolio_updates');
+      this.listener = client;
+    } catch (error) {
+      this.logger.error('Error listening for notifications:', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped) return;
+    setTimeout(() => this.listen(), this.options.reconnectMs);
+  }
+
+  private async handleNotification(notification: Notification): Promise<void> {
+    try {
+      const payload = JSON.parse(notification.payload || '{}');
+      if (!payload.userId || !this.hasSockets(USER_ROOM_PREFIX + payload.userId)) return;
+
+      if (notification.channel === 'order_events') {
+        await this.sendOrderUpdate(payload.userId, payload.orderId, payload.status, payload.signature);
+      } else if (notification.channel === 'portfolio_updates') {
+        await this.sendPortfolioUpdate(payload.userId, payload.mode);
+      }
+    } catch (error) {
+      this.logger.error(`Error handling ${notification.channel} notification:`, error);
+    }
+  }
+
+  private async sendOrderUpdate(userId: string, orderId: string, status: OrderStatus, signature?: string): Promise<void> {
+    let trade: Trade | undefined;
+    if (signature && (status === OrderStatus.FILLED || status === OrderStatus.PARTIALLY_FILLED)) {
+      trade = (await this.orderExecutionService.getTradeBySignature(signature)) || undefined;
+    }
+
+    const message: OrderUpdateMessage = {
+      type: 'order_update',
+      data: { orderId, status, trade },
+      timestamp: new Date()
+    };
+    this.io.to(USER_ROOM_PREFIX + userId).emit(message.type, message);
+  }
+
+  private async sendPortfolioUpdate(userId: string, mode: AccountMode): Promise<void> {
+    const portfolio = await this.portfolioManager.getUserPortfolio(userId, mode);
+
+    const message: PortfolioUpdateMessage = {
+      type: 'portfolio_update',
+      data: {
+        mode,
+        totalValue: portfolio.totalValue,
+        totalPnl: portfolio.totalPnl,
+        positions: portfolio.positions
+      },
+      timestamp: new Date()
+    };
+    this.io.to(USER_ROOM_PREFIX + userId).emit(message.type, message);
+  }
+
+  private async getChange24h(mint: string): Promise<number> {
+    const cached = this.changes.get(mint);
+    if (cached && Date.now() - cached.fetchedAt < this.options.changeTtlMs) {
+      return cached.change24h;
+    }
+
+    const change24h = (await this.dexScreenerService.getPriceChange24h(mint)) ?? cached?.change24h ?? 0;
+    this.changes.set(mint, { change24h, fetchedAt: Date.now() });
+    return change24h;
+  }
+
+  private hasSockets(room: string): boolean {
+    return (this.io.sockets.adapter.rooms.get(room)?.size || 0) > 0;
+  }
+
+  private parseMints(mints: unknown): string[] {
+    const list = Array.isArray(mints) ? mints : [mints];
+    return list.filter((mint): mint is string => typeof mint === 'string' && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(mint));
+  }
+}
@@ -0,0 +1,288 @@
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import { Server as SocketIOServer } from 'socket.io';
+import winston from 'winston';
+import { ARBITRAGE_DEXES, ARBITRAGE_PAIRS, SOL_MINT } from '../../config/trading';
+import { ArbitrageOpportunity, ArbitrageOpportunityMessage, Quote } from '../../types/trading';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { DexScreenerService } from '../dataProviders/DexScreenerService';
+import { JupiterService } from '../dataProviders/JupiterService';
+
+export interface ArbitragePair {
+  inputMint: string;
+  outputMint: string;
+  amount: number; // Probe size in inputMint units
+  symbol?: string;
+}
+
+export interface ArbitrageDetectorOptions {
+  pairs: ArbitragePair[];
+  dexes: string[]; // Jupiter venue labels, quoted one at a time
+  minProfitPercentage: number; // Opportunities below this (net of gas) are dropped
+  gasPerSwapSol: number; // Network and priority fee assumed per swap
+  opportunityTtlMs: number;
+  concurrency: number; // Quote requests in flight at once
+}
+
+const DEFAULT_OPTIONS: ArbitrageDetectorOptions = {
+  pairs: ARBITRAGE_PAIRS,
+  dexes: ARBITRAGE_DEXES,
+  minProfitPercentage: 0.1,
+  gasPerSwapSol: 0.0001,
+  opportunityTtlMs: 15 * 1000,
+  concurrency: 3
+};
+
+export type ArbitrageListener = (opportunity: ArbitrageOpportunity) => Promise<void> | void;
+
+/**
+ * Looks for price gaps between venues on a watchlist of pairs. Each pair is bought on every
+ * venue in turn, and the best buy is then sold back on every other venue. A round trip that
+ * returns more than it cost after gas is recorded and pushed to subscribers.
+ */
+export class ArbitrageDetector {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private jupiterService: JupiterService;
+  private dexScreenerService: DexScreenerService;
+  private io?: SocketIOServer;
+  private options: ArbitrageDetectorOptions;
+  private listeners: ArbitrageListener[] = [];
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    pool: Pool,
+    logger: winston.Logger,
+    jupiterService: JupiterService,
+    dexScreenerService: DexScreenerService,
+    io?: SocketIOServer,
+    options: Partial<ArbitrageDetectorOptions> = {}
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.jupiterService = jupiterService;
+    this.dexScreenerService = dexScreenerService;
+    this.io = io;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start polling the watchlist
+   */
+  start(pollMs = 15 * 1000): void {
+    if (this.timer) return;
+    if (this.options.pairs.length === 0 || this.options.dexes.length < 2) {
+      this.logger.info('Arbitrage detector not started: needs at least one pair and two venues');
+      return;
+    }
+
+    this.timer = setInterval(() => this.scan(), pollMs);
+    this.logger.info(`Arbitrage detector started for ${this.options.pairs.length} pairs (poll ${pollMs}ms)`);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Register a callback for every opportunity found, e.g. to let ARBITRAGE strategies act on it
+   */
+  onOpportunity(listener: ArbitrageListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Check every pair on the watchlist once
+   */
+  async scan(): Promise<ArbitrageOpportunity[]> {
+    if (this.isRunning) return [];
+    this.isRunning = true;
+
+    const found: ArbitrageOpportunity[] = [];
+    try {
+      for (const pair of this.options.pairs) {
+        try {
+          const opportunity = await this.checkPair(pair);
+          if (opportunity) {
+            await this.publish(opportunity);
+            found.push(opportunity);
+          }
+        } catch (error) {
+          this.logger.error(`Error checking arbitrage for ${pair.inputMint}/${pair.outputMint}:`, error);
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    return found;
+  }
+
+  /**
+   * Get recent unexpired opportunities, most profitable first
+   */
+  async getActiveOpportunities(limit = 50): Promise<ArbitrageOpportunity[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM arbitrage_opportunities WHERE expires_at > NOW() ORDER BY net_profit DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(row => this.mapOpportunityRow(row));
+  }
+
+  /**
+   * Quote a round trip for one pair across all venue combinations
+   */
+  async checkPair(pair: ArbitragePair): Promise<ArbitrageOpportunity | null> {
+    const startedAt = Date.now();
+
+    // 1. Buy the token on each venue and keep the one that gives the most
+    const buys = await this.quoteEachDex(pair.inputMint, pair.outputMint, pair.amount, this.options.dexes);
+    const buy = this.best(buys);
+    if (!buy) return null;
+
+    const tokenAmount = await this.jupiterService.toUiAmount(pair.outputMint, buy.quote.outAmount);
+
+    // 2. Sell that amount back on every other venue
+    const sellDexes = this.options.dexes.filter(dex => dex !== buy.dex);
+    const sells = await this.quoteEachDex(pair.outputMint, pair.inputMint, tokenAmount, sellDexes);
+    const sell = this.best(sells);
+    if (!sell) return null;
+
+    const proceeds = await this.jupiterService.toUiAmount(pair.inputMint, sell.quote.outAmount);
+    const estimatedProfit = proceeds - pair.amount;
+    const estimatedGas = await this.getGasInInputMint(pair.inputMint);
+    if (estimatedGas === null) return null;
+
+    const netProfit = estimatedProfit - estimatedGas;
+    const profitPercentage = (netProfit / pair.amount) * 100;
+    if (profitPercentage < this.options.minProfitPercentage) {
+      return null;
+    }
+
+    const buyPrice = pair.amount / tokenAmount;
+    const sellPrice = proceeds / tokenAmount;
+    const detectedAt = new Date();
+
+    return {
+      id: randomUUID(),
+      inputMint: pair.inputMint,
+      outputMint: pair.outputMint,
+      symbol: pair.symbol || '',
+      buyPrice,
+      sellPrice,
+      priceDifference: sellPrice - buyPrice,
+      profitPercentage,
+      buyDex: buy.dex,
+      sellDex: sell.dex,
+      maxAmount: pair.amount,
+      estimatedProfit,
+      estimatedGas,
+      netProfit,
+      liquidity: (await this.dexScreenerService.getTokenLiquidity(pair.outputMint)) || 0,
+      slippage: Math.max(parseFloat(buy.quote.priceImpactPct) || 0, parseFloat(sell.quote.priceImpactPct) || 0),
+      timeToExecute: Date.now() - startedAt, // Quotes are this old by the time the gap is reported
+      timestamp: detectedAt,
+      expiresAt: new Date(detectedAt.getTime() + this.options.opportunityTtlMs)
+    };
+  }
+
+  // Private helper methods
+
+  private async quoteEachDex(
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    dexes: string[]
+  ): Promise<Array<{ dex: string; quote: Quote }>> {
+    const quotes = await mapWithConcurrency(dexes, this.options.concurrency, async dex => {
+      const quote = await this.jupiterService.getQuote(inputMint, outputMint, amount, undefined, { dexes: [dex] });
+      return quote ? { dex, quote } : null;
+    });
+    return quotes.filter((entry): entry is { dex: string; quote: Quote } => entry !== null);
+  }
+
+  private best(quotes: Array<{ dex: string; quote: Quote }>): { dex: string; quote: Quote } | null {
+    return quotes.reduce<{ dex: string; quote: Quote } | null>((best, entry) =>
+      !best || BigInt(entry.quote.outAmount) > BigInt(best.quote.outAmount) ? entry : best, null);
+  }
+
+  /**
+   * Gas for the two swaps of a round trip, in inputMint units
+   */
+  private async getGasInInputMint(inputMint: string): Promise<number | null> {
+    const gasSol = this.options.gasPerSwapSol * 2;
+    if (inputMint === SOL_MINT) return gasSol;
+
+    const solPrice = await this.jupiterService.getTokenPrice(SOL_MINT, inputMint);
+    return solPrice ? gasSol * solPrice : null;
+  }
+
+  private async publish(opportunity: ArbitrageOpportunity): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO arbitrage_opportunities (
+        id, input_mint, output_mint, symbol, buy_price, sell_price, price_difference,
+        profit_percentage, buy_dex, sell_dex, max_amount, estimated_profit, estimated_gas,
+        net_profit, liquidity, slippage, time_to_execute, detected_at, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+    `, [
+      opportunity.id, opportunity.inputMint, opportunity.outputMint, opportunity.symbol,
+      opportunity.buyPrice, opportunity.sellPrice, opportunity.priceDifference, opportunity.profitPercentage,
+      opportunity.buyDex, opportunity.sellDex, opportunity.maxAmount, opportunity.estimatedProfit,
+      opportunity.estimatedGas, opportunity.netProfit, opportunity.liquidity, opportunity.slippage,
+      opportunity.timeToExecute, opportunity.timestamp, opportunity.expiresAt
+    ]);
+
+    this.logger.info(
+      `Arbitrage ${opportunity.inputMint}/${opportunity.outputMint}: buy on ${opportunity.buyDex}, ` +
+      `sell on ${opportunity.sellDex}, net ${opportunity.profitPercentage.toFixed(3)}%`
+    );
+
+    if (this.io) {
+      const message: ArbitrageOpportunityMessage = {
+        type: 'arbitrage_opportunity',
+        data: opportunity,
+        timestamp: new Date()
+      };
+      this.io.to('arbitrage').emit(message.type, message);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(opportunity);
+      } catch (error) {
+        this.logger.error(`Arbitrage listener failed for ${opportunity.id}:`, error);
+      }
+    }
+  }
+
+  private mapOpportunityRow(row: any): ArbitrageOpportunity {
+    return {
+      id: row.id,
+      inputMint: row.input_mint,
+      outputMint: row.output_mint,
+      symbol: row.symbol || '',
+      buyPrice: parseFloat(row.buy_price),
+      sellPrice: parseFloat(row.sell_price),
+      priceDifference: parseFloat(row.price_difference),
+      profitPercentage: parseFloat(row.profit_percentage),
+      buyDex: row.buy_dex,
+      sellDex: row.sell_dex,
+      maxAmount: parseFloat(row.max_amount),
+      estimatedProfit: parseFloat(row.estimated_profit),
+      estimatedGas: parseFloat(row.estimated_gas),
+      netProfit: parseFloat(row.net_profit),
+      liquidity: parseFloat(row.liquidity) || 0,
+      slippage: parseFloat(row.slippage) || 0,
+      timeToExecute: row.time_to_execute || 0,
+      timestamp: row.detected_at,
+      expiresAt: row.expires_at
+    };
+  }
+}
@@ -0,0 +1,402 @@
+import { Connection, LAMPORTS_PER_SOL, VersionedBlockResponse } from '@solana/web3.js';
+import { Pool } from 'pg';
+import winston from 'winston';
+import { SOL_MINT } from '../../config/trading';
+import { MevAnalysis, MevLossReport, MevStatus } from '../../types/trading';
+import { JupiterService } from '../dataProviders/JupiterService';
+
+type BlockTransaction = VersionedBlockResponse['transactions'][number];
+
+interface TradeToScan {
+  id: string;
+  signature: string;
+  userWallet: string;
+  inputMint: string;
+  outputMint: string;
+  expectedOutputAmount: number; // Quoted output the trade's loss is measured against
+}
+
+export interface MEVScannerOptions {
+  batchSize: number; // Trades analysed per tick
+  minAgeMs: number; // Wait this long after a trade so its block is available
+  windowSize: number; // Transactions either side of ours that are inspected
+  defaultSlippage: number; // Recommended when we have no history to go on
+  minSlippage: number;
+  priorityFeeSpike: number; // A front-run must bid at least this multiple of the block's median priority fee
+}
+
+const DEFAULT_OPTIONS: MEVScannerOptions = {
+  batchSize: 20,
+  minAgeMs: 30 * 1000,
+  windowSize: 30,
+  defaultSlippage: 0.01,
+  minSlippage: 0.001,
+  priorityFeeSpike: 5
+};
+
+// Base fee charged per signature, the rest of a transaction's fee is its priority fee
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+/**
+ * Checks our users' executed swaps for sandwich and front-run attacks. Each trade's block is
+ * searched for transactions touching the same pool accounts just before and after it; the same
+ * signer buying ahead of us and selling right after is a sandwich. A lone buy just ahead of us
+ * is only called a front-run when it outbid the block's usual priority fee to get there;
+ * otherwise it is reported as a possible one. We only detect, never trade.
+ */
+export class MEVScanner {
+  private connection: Connection;
+  private pool: Pool;
+  private logger: winston.Logger;
+  private jupiterService: JupiterService;
+  private options: MEVScannerOptions;
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    connection: Connection,
+    pool: Pool,
+    logger: winston.Logger,
+    jupiterService: JupiterService,
+    options: Partial<MEVScannerOptions> = {}
+  ) {
+    this.connection = connection;
+    this.pool = pool;
+    this.logger = logger;
+    this.jupiterService = jupiterService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start analysing new trades in the background
+   */
+  start(tickMs = 60 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.scanPendingTrades(), tickMs);
+    this.logger.info(`MEV scanner started (tick ${tickMs}ms)`);
+  }
+
+  /**
+   * Stop the background scan
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Analyse a batch of live trades that have not been checked yet
+   */
+  async scanPendingTrades(): Promise<number> {
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    try {
+      const result = await this.pool.query(`
+        SELECT t.id, t.signature, t.input_mint, t.output_mint, t.expected_output_amount, o.user_wallet
+        FROM trades t
+        JOIN orders o ON o.id = t.order_id
+        WHERE t.mev_checked_at IS NULL AND t.is_simulated = FALSE AND t.signature IS NOT NULL
+          AND t.expected_output_amount IS NOT NULL
+          AND t.executed_at < NOW() - ($1 || ' milliseconds')::INTERVAL
+        ORDER BY t.executed_at ASC
+        LIMIT $2
+      `, [this.options.minAgeMs, this.options.batchSize]);
+
+      for (const row of result.rows) {
+        try {
+          const analysis = await this.analyseTrade({
+            id: row.id,
+            signature: row.signature,
+            userWallet: row.user_wallet,
+            inputMint: row.input_mint,
+            outputMint: row.output_mint,
+            expectedOutputAmount: parseFloat(row.expected_output_amount)
+          });
+          await this.saveAnalysis(analysis);
+        } catch (error) {
+          this.logger.error(`Error analysing trade ${row.id} for MEV:`, error);
+        }
+      }
+
+      return result.rows.length;
+    } catch (error) {
+      this.logger.error('Error scanning trades for MEV:', error);
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Look for a sandwich or front-run around one trade in its block
+   */
+  async analyseTrade(trade: TradeToScan): Promise<MevAnalysis> {
+    const analysis: MevAnalysis = {
+      tradeId: trade.id,
+      signature: trade.signature,
+      status: 'unavailable',
+      estimatedLoss: 0,
+      analysedAt: new Date()
+    };
+
+    const tx = await this.connection.getTransaction(trade.signature, { maxSupportedTransactionVersion: 0 });
+    if (!tx) return analysis;
+
+    const block = await this.connection.getBlock(tx.slot, {
+      maxSupportedTransactionVersion: 0,
+      transactionDetails: 'full',
+      rewards: false
+    });
+    if (!block) return analysis;
+
+    const ourIndex = block.transactions.findIndex(entry => entry.transaction.signatures[0] === trade.signature);
+    if (ourIndex === -1) return analysis;
+
+    const ours = block.transactions[ourIndex];
+    const poolAccounts = this.getPoolAccounts(ours, trade.userWallet);
+
+    // Pool transactions by other signers, nearest first on each side
+    const touchesPool = (entry: BlockTransaction) =>
+      this.getSigner(entry) !== trade.userWallet &&
+      !entry.meta?.err &&
+      this.getWritableAccounts(entry).some(account => poolAccounts.has(account));
+    const before = block.transactions
+      .slice(Math.max(0, ourIndex - this.options.windowSize), ourIndex)
+      .filter(touchesPool)
+      .reverse();
+    const after = block.transactions
+      .slice(ourIndex + 1, ourIndex + 1 + this.options.windowSize)
+      .filter(touchesPool);
+
+    // A sandwich buys what we bought just ahead of us and sells it back just after
+    const boughtAhead = (entry: BlockTransaction) =>
+      this.getBalanceChange(entry, this.getSigner(entry), trade.outputMint) > 0 &&
+      this.getBalanceChange(entry, this.getSigner(entry), trade.inputMint) < 0;
+    const soldAfter = (entry: BlockTransaction, signer: string) =>
+      this.getSigner(entry) === signer &&
+      this.getBalanceChange(entry, signer, trade.outputMint) < 0;
+
+    let status: MevStatus = 'clean';
+    for (const front of before.filter(boughtAhead)) {
+      const signer = this.getSigner(front);
+      const back = after.find(entry => soldAfter(entry, signer));
+      if (back) {
+        status = 'sandwiched';
+        analysis.attacker = signer;
+        analysis.frontRunSignature = front.transaction.signatures[0];
+        analysis.backRunSignature = back.transaction.signatures[0];
+        break;
+      }
+    }
+
+    // Without a back-run, only the pool transaction directly ahead of ours can be a front-run,
+    // and an ordinary trade in the same direction looks the same unless it paid to jump the queue
+    if (status === 'clean' && before.length > 0 && boughtAhead(before[0])) {
+      status = this.isPriorityFeeSpike(before[0], block.transactions) ? 'frontrun' : 'possible_frontrun';
+      analysis.attacker = this.getSigner(before[0]);
+      analysis.frontRunSignature = before[0].transaction.signatures[0];
+    }
+
+    analysis.status = status;
+    if (status === 'sandwiched' || status === 'frontrun') {
+      const received = this.getBalanceChange(ours, trade.userWallet, trade.outputMint, true);
+      const shortfall = Math.max(0, trade.expectedOutputAmount - received);
+      analysis.estimatedLoss = await this.toSol(trade.outputMint, shortfall);
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Summarise MEV losses on a user's live trades over the last `days` days
+   */
+  async getMevLossReport(userId: string, period: string, days: number): Promise<MevLossReport> {
+    const [totals, byMint, recommendedSlippage] = await Promise.all([
+      this.pool.query(`
+        SELECT COUNT(*) FILTER (WHERE mev_status <> 'unavailable') AS analysed,
+               COUNT(*) FILTER (WHERE mev_status = 'sandwiched') AS sandwiched,
+               COUNT(*) FILTER (WHERE mev_status = 'frontrun') AS frontrun,
+               COUNT(*) FILTER (WHERE mev_status = 'possible_frontrun') AS possible_frontrun,
+               COALESCE(SUM(mev_loss), 0) AS total_loss
+        FROM trades
+        WHERE user_id = $1 AND is_simulated = FALSE AND mev_checked_at IS NOT NULL
+          AND executed_at >= NOW() - ($2 || ' days')::INTERVAL
+      `, [userId, days]),
+      this.pool.query(`
+        SELECT output_mint AS mint, COUNT(*) AS trades, SUM(mev_loss) AS loss
+        FROM trades
+        WHERE user_id = $1 AND is_simulated = FALSE AND mev_status IN ('sandwiched', 'frontrun')
+          AND executed_at >= NOW() - ($2 || ' days')::INTERVAL
+        GROUP BY output_mint
+        ORDER BY loss DESC
+      `, [userId, days]),
+      this.getRecommendedSlippage(userId, days)
+    ]);
+
+    const row = totals.rows[0];
+    return {
+      period,
+      tradesAnalysed: parseInt(row.analysed),
+      sandwiched: parseInt(row.sandwiched),
+      frontrun: parseInt(row.frontrun),
+      possibleFrontrun: parseInt(row.possible_frontrun),
+      totalLoss: parseFloat(row.total_loss),
+      lossByMint: byMint.rows.map(mintRow => ({
+        mint: mintRow.mint,
+        trades: parseInt(mintRow.trades),
+        loss: parseFloat(mintRow.loss) || 0
+      })),
+      recommendedSlippage
+    };
+  }
+
+  /**
+   * Slippage tolerance to default a user's orders to. Tolerance is what a sandwich extracts, so
+   * once a user has been attacked we tighten it to just above the price impact their trades
+   * actually see; otherwise we keep their usual setting.
+   */
+  async getRecommendedSlippage(userId: string, days = 30): Promise<number> {
+    const result = await this.pool.query(`
+      SELECT PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY o.slippage_tolerance) AS usual_tolerance,
+             PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY t.slippage) AS typical_impact,
+             COUNT(*) FILTER (WHERE t.mev_status IN ('sandwiched', 'frontrun')) AS attacked
+      FROM trades t
+      JOIN orders o ON o.id = t.order_id
+      WHERE t.user_id = $1 AND t.is_simulated = FALSE
+        AND t.executed_at >= NOW() - ($2 || ' days')::INTERVAL
+    `, [userId, days]);
+
+    const row = result.rows[0];
+    const usual = parseFloat(row.usual_tolerance) || this.options.defaultSlippage;
+    if (!(parseInt(row.attacked) > 0)) {
+      return usual;
+    }
+
+    const typicalImpact = parseFloat(row.typical_impact) || 0;
+    const tightened = Math.max(this.options.minSlippage, typicalImpact * 2 + 0.002);
+    return Math.round(Math.min(usual, tightened) * 10000) / 10000;
+  }
+
+  // Private helper methods
+
+  private async saveAnalysis(analysis: MevAnalysis): Promise<void> {
+    await this.pool.query(`
+      UPDATE trades
+      SET mev_status = $2, mev_loss = $3, mev_attacker = $4, mev_front_signature = $5,
+          mev_back_signature = $6, mev_checked_at = $7
+      WHERE id = $1
+    `, [
+      analysis.tradeId,
+      analysis.status,
+      analysis.estimatedLoss,
+      analysis.attacker,
+      analysis.frontRunSignature,
+      analysis.backRunSignature,
+      analysis.analysedAt
+    ]);
+
+    if (analysis.status === 'sandwiched' || analysis.status === 'frontrun') {
+      this.logger.warn(
+        `Trade ${analysis.tradeId} was ${analysis.status} by ${analysis.attacker}, ` +
+        `estimated loss ${analysis.estimatedLoss.toFixed(6)} SOL`
+      );
+    } else if (analysis.status === 'possible_frontrun') {
+      this.logger.info(`Trade ${analysis.tradeId} may have been front-run by ${analysis.attacker}`);
+    }
+  }
+
+  /**
+   * Whether a transaction bid a priority fee per compute unit well above the median of the
+   * block's transactions that paid one
+   */
+  private isPriorityFeeSpike(entry: BlockTransaction, transactions: BlockTransaction[]): boolean {
+    const price = this.getPriorityFeePrice(entry);
+    if (!price) return false;
+
+    const prices = transactions
+      .map(candidate => this.getPriorityFeePrice(candidate))
+      .filter((candidate): candidate is number => candidate !== null && candidate > 0)
+      .sort((a, b) => a - b);
+    const median = prices.length > 0 ? prices[Math.floor(prices.length / 2)] : 0;
+
+    return median === 0 || price >= median * this.options.priorityFeeSpike;
+  }
+
+  /**
+   * Priority fee paid per compute unit used, in lamports, or null if it cannot be told
+   */
+  private getPriorityFeePrice(entry: BlockTransaction): number | null {
+    const computeUnits = entry.meta?.computeUnitsConsumed;
+    if (!entry.meta || !computeUnits) return null;
+
+    const priorityFee = entry.meta.fee - entry.transaction.signatures.length * LAMPORTS_PER_SIGNATURE;
+    return Math.max(0, priorityFee) / computeUnits;
+  }
+
+  private getAccountKeys(entry: BlockTransaction): string[] {
+    const message = entry.transaction.message;
+    const keys = message.version === 'legacy'
+      ? message.getAccountKeys()
+      : message.getAccountKeys({ accountKeysFromLookups: entry.meta?.loadedAddresses });
+    return keys.keySegments().flat().map(key => key.toBase58());
+  }
+
+  private getSigner(entry: BlockTransaction): string {
+    return entry.transaction.message.staticAccountKeys[0].toBase58();
+  }
+
+  private getWritableAccounts(entry: BlockTransaction): string[] {
+    const message = entry.transaction.message;
+    return this.getAccountKeys(entry).filter((_, index) => message.isAccountWritable(index));
+  }
+
+  /**
+   * Writable accounts our swap touched that are not the user's own: pool state and vaults
+   */
+  private getPoolAccounts(entry: BlockTransaction, userWallet: string): Set<string> {
+    const keys = this.getAccountKeys(entry);
+    const ownAccounts = new Set<string>([userWallet]);
+    for (const balance of [...(entry.meta?.preTokenBalances || []), ...(entry.meta?.postTokenBalances || [])]) {
+      if (balance.owner === userWallet) {
+        ownAccounts.add(keys[balance.accountIndex]);
+      }
+    }
+
+    return new Set(this.getWritableAccounts(entry).filter(account => !ownAccounts.has(account)));
+  }
+
+  /**
+   * Net change in an owner's holdings of a mint in one transaction, in UI units. SOL counts
+   * both wrapped SOL and lamports; the network fee can be added back for our own swap.
+   */
+  private getBalanceChange(entry: BlockTransaction, owner: string, mint: string, excludeFee = false): number {
+    const meta = entry.meta;
+    if (!meta) return 0;
+
+    const sum = (balances: typeof meta.preTokenBalances) => (balances || [])
+      .filter(balance => balance.owner === owner && balance.mint === mint)
+      .reduce((total, balance) => total + (balance.uiTokenAmount.uiAmount || 0), 0);
+    let change = sum(meta.postTokenBalances) - sum(meta.preTokenBalances);
+
+    if (mint === SOL_MINT) {
+      const index = this.getAccountKeys(entry).indexOf(owner);
+      if (index !== -1) {
+        change += (meta.postBalances[index] - meta.preBalances[index]) / LAMPORTS_PER_SOL;
+        if (excludeFee && index === 0) {
+          change += meta.fee / LAMPORTS_PER_SOL;
+        }
+      }
+    }
+
+    return change;
+  }
+
+  private async toSol(mint: string, amount: number): Promise<number> {
+    if (amount === 0 || mint === SOL_MINT) return amount;
+    const price = await this.jupiterService.getTokenPrice(mint, SOL_MINT);
+    return price ? amount * price : 0;
+  }
+}
@@ -1,11 +1,42 @@
 import { Connection } from '@solana/web3.js';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import winston from 'winston';
-import { Order, OrderStatus, OrderType, Trade } from '../../types/trading';
+import {
+  BracketParameters,
+  Order,
+  OrderBook,
+  OrderBookLevel,
+  OrderEvent,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  Quote,
+  QuoteCheckResult,
+  SwapResult,
+  Trade,
+  TwapState
+} from '../../types/trading';
+import { SOL_MINT } from '../../config/trading';
+import { TradingError } from '../../middleware/errorHandler';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { parseIntervalMs } from '../../utils/intervals';
 import { JupiterService } from '../dataProviders/JupiterService';
+import { PaperTradingService } from '../paperTrading/PaperTradingService';
 import { PortfolioManager } from '../portfolio/PortfolioManager';
+import { TransactionStatus } from '../transactions/TransactionSender';
+import { OrderStateMachine, OrderTransitionDetails } from './OrderStateMachine';
 import { RiskManager } from './RiskManager';
 
+const OCO_PARK_REASON = 'One-cancels-other: sibling order executing';
+const OCO_CANCEL_REASON = 'One-cancels-other: sibling order filled';
+// IOC orders halve their size this many times looking for a fill within slippage tolerance
+const IOC_MAX_SIZE_REDUCTIONS = 4;
+// Synthetic order books probe quotes starting at this size (in SOL terms), doubling each level
+const ORDER_BOOK_BASE_SIZE_SOL = 0.1;
+const ORDER_BOOK_SIZE_STEP = 2;
+const ORDER_BOOK_MAX_DEPTH = 15;
+const ORDER_BOOK_CACHE_MS = 5 * 1000;
+
 export class OrderExecutionService {
   private connection: Connection;
   private pool: Pool;
@@ -13,6 +44,9 @@ export class OrderExecutionService {
   private jupiterService: JupiterService;
   private riskManager: RiskManager;
   private portfolioManager: PortfolioManager;
+  private paperTradingService: PaperTradingService;
+  private stateMachine: OrderStateMachine;
+  private orderBookCache = new Map<string, { book: OrderBook; expiresAt: number }>();
 
   constructor(
     connection: Connection,
@@ -20,7 +54,8 @@ export class OrderExecutionService {
     logger: winston.Logger,
     jupiterService: JupiterService,
     riskManager: RiskManager,
-    portfolioManager: PortfolioManager
+    portfolioManager: PortfolioManager,
+    paperTradingService: PaperTradingService
   ) {
     this.connection = connection;
     this.pool = pool;
@@ -28,81 +63,267 @@ export class OrderExecutionService {
     this.jupiterService = jupiterService;
     this.riskManager = riskManager;
     this.portfolioManager = portfolioManager;
+    this.paperTradingService = paperTradingService;
+    this.stateMachine = new OrderStateMachine(pool, logger);
   }
 
   /**
    * Execute a market order immediately at current market price
    */
   async executeMarketOrder(order: Order): Promise<Trade | null> {
+    if (order.parentOrderId) {
+      return this.executeBracketChild(order);
+    }
+
+    const trade = await this.fillOrder(order, OrderStatus.FILLED);
+    if (trade) {
+      await this.activateChildOrders(order.id, trade.outputAmount);
+    } else if (await this.isOrderClosedUnfilled(order.id)) {
+      await this.cancelChildOrders(order.id, 'Parent order did not fill');
+    }
+    return trade;
+  }
+
+  /**
+   * Execute the next slice of a TWAP order if it is due. Each slice is its own swap recorded
+   * against the parent order; the order stays PARTIALLY_FILLED until the last slice lands.
+   */
+  async executeTwapSlice(order: Order): Promise<Trade | null> {
+    if (!order.twap || (order.nextSliceAt && order.nextSliceAt > new Date())) {
+      return null;
+    }
+
+    const state: TwapState = order.twapState || {
+      sliceAmounts: this.planTwapSlices(order),
+      slicesExecuted: 0
+    };
+
     try {
-      // 1. Risk check
-      const riskCheck = await this.riskManager.validateOrder(order);
-      if (!riskCheck.isValid) {
-        await this.updateOrderStatus(order.id, OrderStatus.REJECTED, riskCheck.reason);
-        return null;
+      // Risk is assessed once for the whole order, before the first slice
+      if (state.slicesExecuted === 0) {
+        const riskCheck = await this.riskManager.validateOrder(order);
+        if (!riskCheck.isValid) {
+          await this.finishTwap(order, state, OrderStatus.REJECTED, riskCheck.reason);
+          return null;
+        }
       }
 
-      // 2. Get current market price
+      const sliceAmount = state.sliceAmounts[state.slicesExecuted];
       const quote = await this.jupiterService.getQuote(
         order.inputMint,
         order.outputMint,
-        order.amount
+        sliceAmount,
+        Math.round(order.slippageTolerance * 10000)
       );
-
       if (!quote) {
-        await this.updateOrderStatus(order.id, OrderStatus.FAILED, 'Unable to get quote');
+        this.logger.warn(`No quote for TWAP slice of ${order.id}, retrying next tick`);
         return null;
       }
 
-      // 3. Check slippage tolerance
-      const slippageCheck = this.checkSlippage(order, quote);
-      if (!slippageCheck.isValid) {
-        await this.updateOrderStatus(order.id, OrderStatus.REJECTED, slippageCheck.reason);
+      const priceImpact = parseFloat(quote.priceImpactPct);
+      if (order.twap.maxPriceImpactPct !== undefined && priceImpact > order.twap.maxPriceImpactPct) {
+        await this.finishTwap(
+          order,
+          state,
+          OrderStatus.CANCELLED,
+          `TWAP aborted: price impact ${(priceImpact * 100).toFixed(2)}% exceeds ${(order.twap.maxPriceImpactPct * 100).toFixed(2)}%`
+        );
         return null;
       }
 
-      // 4. Execute the swap
-      const swapResult = await this.jupiterService.executeSwap(
-        quote,
-        order.userWallet,
-        order.slippageTolerance
-      );
+      const quoteCheck = await this.riskManager.validateQuote({ ...order, amount: sliceAmount }, quote);
+      if (!quoteCheck.isValid) {
+        await this.finishTwap(order, state, OrderStatus.REJECTED, quoteCheck.reason);
+        return null;
+      }
 
+      // Fails if the order was cancelled since it was loaded
+      if (!(await this.updateOrderStatus(order.id, OrderStatus.EXECUTING, undefined, { quote }))) {
+        return null;
+      }
+      const swapResult = order.isPaper
+        ? await this.paperTradingService.simulateSwap(order, quote, sliceAmount)
+        : await this.jupiterService.executeSwap(quote, order.userWallet, order.slippageTolerance, order.id);
       if (!swapResult.success) {
-        await this.updateOrderStatus(order.id, OrderStatus.FAILED, swapResult.error);
+        await this.finishTwap(order, state, OrderStatus.FAILED, `TWAP aborted: ${swapResult.error}`);
         return null;
       }
 
-      // 5. Create trade record
-      const trade = await this.createTrade(order, swapResult, quote);
+      const trade = await this.createTrade({ ...order, amount: sliceAmount }, swapResult, quote, quoteCheck);
+      await this.completeTwapSlice(order, state, trade);
+      return trade;
 
-      // 6. Update portfolio
-      await this.portfolioManager.updatePortfolioAfterTrade(trade);
+    } catch (error) {
+      this.logger.error(`Error executing TWAP slice for ${order.id}:`, error);
+      await this.finishTwap(order, state, OrderStatus.FAILED, error.message);
+      return null;
+    }
+  }
 
-      // 7. Update order status
-      await this.updateOrderStatus(order.id, OrderStatus.FILLED);
+  /**
+   * Execute an IOC or FOK order once, straight after placement; nothing is left pending.
+   * IOC fills as much as it can within slippage tolerance and cancels the rest,
+   * FOK fills the full amount or is rejected.
+   */
+  async executeImmediateOrder(order: Order): Promise<Trade | null> {
+    const isFok = order.timeInForce === 'FOK';
+    const unfilledStatus = isFok ? OrderStatus.REJECTED : OrderStatus.CANCELLED;
 
-      this.logger.info(`Market order executed successfully: ${order.id}`);
+    try {
+      if (order.type !== OrderType.MARKET) {
+        const currentPrice = await this.getOrderPrice(order);
+        if (!currentPrice || !this.isPriceConditionMet(order, currentPrice)) {
+          await this.updateOrderStatus(order.id, unfilledStatus, `${order.timeInForce}: price condition not met`);
+          await this.cancelChildOrders(order.id, 'Parent order did not fill');
+          return null;
+        }
+      }
+
+      const fillableAmount = await this.getFillableAmount(order, isFok ? 0 : IOC_MAX_SIZE_REDUCTIONS);
+      if (!fillableAmount) {
+        await this.updateOrderStatus(
+          order.id,
+          unfilledStatus,
+          `${order.timeInForce}: cannot fill within slippage tolerance`
+        );
+        await this.cancelChildOrders(order.id, 'Parent order did not fill');
+        return null;
+      }
+
+      if (fillableAmount === order.amount) {
+        return await this.executeMarketOrder(order);
+      }
+
+      const partialOrder = { ...order, amount: fillableAmount };
+      const trade = await this.fillOrder(partialOrder, OrderStatus.PARTIALLY_FILLED, 'IOC: unfilled remainder cancelled');
+      if (trade) {
+        await this.activateChildOrders(partialOrder.id, trade.outputAmount);
+      } else if (await this.isOrderClosedUnfilled(order.id)) {
+        await this.cancelChildOrders(order.id, 'Parent order did not fill');
+      }
       return trade;
 
     } catch (error) {
-      this.logger.error(`Error executing market order ${order.id}:`, error);
+      this.logger.error(`Error executing ${order.timeInForce} order ${order.id}:`, error);
       await this.updateOrderStatus(order.id, OrderStatus.FAILED, error.message);
       return null;
     }
   }
 
   /**
-   * Execute a limit order (check if conditions are met)
+   * Move GTC orders past their expiresAt to EXPIRED
    */
-  async executeLimitOrder(order: Order): Promise<Trade | null> {
+  async expireOrders(): Promise<number> {
     try {
-      // 1. Get current market price
-      const currentPrice = await this.jupiterService.getTokenPrice(
-        order.inputMint,
-        order.outputMint
+      const result = await this.pool.query(
+        `SELECT id, user_id, parent_order_id FROM orders
+         WHERE status IN ($1, $2) AND expires_at IS NOT NULL AND expires_at <= NOW()
+           AND COALESCE(time_in_force, 'GTC') = 'GTC'`,
+        [OrderStatus.PENDING, OrderStatus.WAITING]
       );
 
+      let expired = 0;
+      for (const row of result.rows) {
+        if (!(await this.updateOrderStatus(row.id, OrderStatus.EXPIRED, 'Order expired'))) {
+          continue;
+        }
+        expired++;
+        if (!row.parent_order_id) {
+          await this.cancelChildOrders(row.id, 'Parent order expired');
+        }
+      }
+
+      if (expired > 0) {
+        this.logger.info(`Expired ${expired} orders`);
+      }
+      return expired;
+    } catch (error) {
+      this.logger.error('Error expiring orders:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Place an entry order together with its take-profit and stop-loss children.
+   * Children wait until the entry fills and then behave as a one-cancels-other pair.
+   */
+  async placeBracketOrder(parent: Order, bracket: BracketParameters): Promise<Order[]> {
+    const children: Order[] = [];
+    const base = {
+      userId: parent.userId,
+      userWallet: parent.userWallet,
+      side: OrderSide.SELL,
+      status: OrderStatus.WAITING,
+      inputMint: parent.outputMint,
+      outputMint: parent.inputMint,
+      amount: 0, // Sized from the parent fill on activation
+      slippageTolerance: parent.slippageTolerance,
+      timeInForce: 'GTC' as const,
+      createdAt: parent.createdAt,
+      updatedAt: parent.updatedAt,
+      strategyId: parent.strategyId,
+      isAutomated: parent.isAutomated,
+      isPaper: parent.isPaper,
+      parentOrderId: parent.id
+    };
+
+    if (bracket.takeProfitPrice) {
+      children.push({ ...base, id: this.generateOrderId(), type: OrderType.TAKE_PROFIT, takeProfitPrice: bracket.takeProfitPrice });
+    }
+    if (bracket.stopLossPrice) {
+      children.push({ ...base, id: this.generateOrderId(), type: OrderType.STOP_LOSS, stopPrice: bracket.stopLossPrice });
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.saveOrder(parent, client);
+      for (const child of children) {
+        await this.saveOrder(child, client);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return children;
+  }
+
+  /**
+   * Get the bracket children attached to an order
+   */
+  async getChildOrders(parentOrderId: string): Promise<Order[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM orders WHERE parent_order_id = $1 ORDER BY created_at ASC',
+      [parentOrderId]
+    );
+    return result.rows.map(row => this.mapOrderRow(row));
+  }
+
+  /**
+   * Arm an order's waiting bracket children, sized from what its recorded trades received,
+   * or cancel them if it received nothing
+   */
+  async settleChildOrders(parentOrderId: string, unfilledReason = 'Parent order did not fill'): Promise<void> {
+    const received = await this.getReceivedAmount(parentOrderId);
+    if (received > 0) {
+      await this.activateChildOrders(parentOrderId, received);
+    } else {
+      await this.cancelChildOrders(parentOrderId, unfilledReason);
+    }
+  }
+
+  /**
+   * Execute a limit order (check if conditions are met)
+   */
+  async executeLimitOrder(order: Order, price?: number): Promise<Trade | null> {
+    try {
+      // 1. Get current market price (the scheduler passes one it fetched for the whole pair)
+      const currentPrice = price ?? await this.getOrderPrice(order);
+
       if (!currentPrice) {
         this.logger.warn(`Unable to get current price for limit order ${order.id}`);
         return null;
@@ -126,12 +347,9 @@ export class OrderExecutionService {
   /**
    * Execute stop-loss order
    */
-  async executeStopLossOrder(order: Order): Promise<Trade | null> {
+  async executeStopLossOrder(order: Order, price?: number): Promise<Trade | null> {
     try {
-      const currentPrice = await this.jupiterService.getTokenPrice(
-        order.inputMint,
-        order.outputMint
-      );
+      const currentPrice = price ?? await this.getOrderPrice(order);
 
       if (!currentPrice) {
         return null;
@@ -153,45 +371,184 @@ export class OrderExecutionService {
   }
 
   /**
-   * Process pending orders (called by scheduler)
+   * Execute trailing-stop order. The high-water mark is persisted on every new high so the
+   * trigger survives scheduler ticks and restarts.
    */
-  async processPendingOrders(): Promise<void> {
+  async executeTrailingStopOrder(order: Order, price?: number): Promise<Trade | null> {
     try {
-      const pendingOrders = await this.getPendingOrders();
-      
-      for (const order of pendingOrders) {
-        switch (order.type) {
-          case OrderType.LIMIT:
-            await this.executeLimitOrder(order);
-            break;
-          case OrderType.STOP_LOSS:
-            await this.executeStopLossOrder(order);
-            break;
-          case OrderType.TAKE_PROFIT:
-            await this.executeTakeProfitOrder(order);
-            break;
-        }
+      const currentPrice = price ?? await this.getOrderPrice(order);
+
+      if (!currentPrice) {
+        return null;
+      }
+
+      if (order.highWaterMark === undefined || currentPrice > order.highWaterMark) {
+        order.highWaterMark = currentPrice;
+        order.stopPrice = this.getTrailingStopPrice(order, currentPrice);
+        await this.pool.query(
+          `UPDATE orders SET high_water_mark = $1, stop_price = $2, updated_at = NOW()
+           WHERE id = $3 AND (high_water_mark IS NULL OR high_water_mark < $1)`,
+          [order.highWaterMark, order.stopPrice, order.id]
+        );
+        return null;
+      }
+
+      const stopPrice = this.getTrailingStopPrice(order, order.highWaterMark);
+      if (currentPrice > stopPrice) {
+        return null;
       }
+
+      this.logger.info(
+        `Trailing stop ${order.id} triggered at ${currentPrice} (high ${order.highWaterMark}, stop ${stopPrice})`
+      );
+      return await this.executeMarketOrder(order);
+
     } catch (error) {
-      this.logger.error('Error processing pending orders:', error);
+      this.logger.error(`Error checking trailing-stop order ${order.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Run one scheduler check for an order. `price` is the order's pair price when the
+   * scheduler has already fetched it for a group of orders.
+   */
+  async processOrder(order: Order, price?: number): Promise<Trade | null> {
+    if (order.twap) {
+      return this.executeTwapSlice(order);
+    }
+
+    switch (order.type) {
+      case OrderType.LIMIT:
+        return this.executeLimitOrder(order, price);
+      case OrderType.STOP_LOSS:
+        return this.executeStopLossOrder(order, price);
+      case OrderType.TAKE_PROFIT:
+        return this.executeTakeProfitOrder(order, price);
+      case OrderType.TRAILING_STOP:
+        return this.executeTrailingStopOrder(order, price);
+      default:
+        return null;
     }
   }
 
   /**
-   * Cancel an order
+   * Cancel an order, along with any bracket children that have not filled yet. A TWAP order
+   * keeps the slices it filled, so its children are armed to protect them instead.
    */
   async cancelOrder(orderId: string, userId: string): Promise<boolean> {
+    let cancelled = false;
+    let keepsFills = false;
+    const client = await this.pool.connect();
     try {
-      const result = await this.pool.query(
-        'UPDATE orders SET status = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3 AND status = $4',
-        [OrderStatus.CANCELLED, orderId, userId, OrderStatus.PENDING]
+      await client.query('BEGIN');
+      const result = await client.query(
+        'SELECT status, next_slice_at FROM orders WHERE id = $1 AND user_id = $2',
+        [orderId, userId]
       );
+      const row = result.rows[0];
+      if (!row) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      // A TWAP order with slices already filled stays PARTIALLY_FILLED; only its remaining slices are dropped
+      keepsFills = row.status === OrderStatus.PARTIALLY_FILLED && !!row.next_slice_at;
+      cancelled = keepsFills
+        ? await this.stateMachine.tryTransition(orderId, OrderStatus.PARTIALLY_FILLED, {
+            reason: 'Remaining slices cancelled',
+            fields: { next_slice_at: null }
+          }, client)
+        : await this.stateMachine.tryTransition(orderId, OrderStatus.CANCELLED, { reason: 'Cancelled by user' }, client);
+
+      if (cancelled && !keepsFills) {
+        const children = await client.query(
+          'SELECT id FROM orders WHERE parent_order_id = $1 AND status IN ($2, $3)',
+          [orderId, OrderStatus.WAITING, OrderStatus.PENDING]
+        );
+        for (const child of children.rows) {
+          await this.stateMachine.transition(child.id, OrderStatus.CANCELLED, { reason: 'Parent order cancelled' }, client);
+        }
+      }
 
-      return result.rowCount > 0;
+      await client.query('COMMIT');
     } catch (error) {
+      await client.query('ROLLBACK');
       this.logger.error(`Error cancelling order ${orderId}:`, error);
       return false;
+    } finally {
+      client.release();
+    }
+
+    if (cancelled && keepsFills) {
+      try {
+        await this.settleChildOrders(orderId);
+      } catch (error) {
+        this.logger.error(`Error arming bracket orders for cancelled TWAP ${orderId}:`, error);
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Live orders need a signer; paper orders never send a transaction
+   */
+  isLiveTradingEnabled(): boolean {
+    return this.jupiterService.canSign();
+  }
+
+  /**
+   * Persist a new order. Live orders are refused outright when nothing could sign them.
+   */
+  async saveOrder(order: Order, client: Pool | PoolClient = this.pool): Promise<void> {
+    if (!order.isPaper && !this.isLiveTradingEnabled()) {
+      throw new TradingError('Live trading is disabled: no transaction signer is configured', 'LIVE_TRADING_DISABLED');
     }
+
+    await client.query(`
+      INSERT INTO orders (
+        id, user_id, user_wallet, type, side, status, input_mint, output_mint,
+        amount, limit_price, stop_price, take_profit_price, slippage_tolerance,
+        time_in_force, created_at, updated_at, expires_at, strategy_id, is_automated,
+        parent_order_id, grid_level, trailing_stop_percentage, trailing_stop_amount, high_water_mark,
+        twap_params, is_paper
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26)
+    `, [
+      order.id,
+      order.userId,
+      order.userWallet,
+      order.type,
+      order.side,
+      order.status,
+      order.inputMint,
+      order.outputMint,
+      order.amount,
+      order.limitPrice,
+      order.stopPrice,
+      order.takeProfitPrice,
+      order.slippageTolerance,
+      order.timeInForce,
+      order.createdAt,
+      order.updatedAt,
+      order.expiresAt,
+      order.strategyId,
+      order.isAutomated || false,
+      order.parentOrderId,
+      order.gridLevel,
+      order.trailingStopPercentage,
+      order.trailingStopAmount,
+      order.highWaterMark,
+      order.twap ? JSON.stringify(order.twap) : null,
+      order.isPaper || false
+    ]);
+    await this.stateMachine.recordCreated(order, client);
+  }
+
+  /**
+   * Get the status history of a user's order, or null if the order is not theirs
+   */
+  async getOrderEvents(orderId: string, userId: string): Promise<OrderEvent[] | null> {
+    return this.stateMachine.getOrderEvents(orderId, userId);
   }
 
   /**
@@ -210,37 +567,544 @@ export class OrderExecutionService {
       query += ' ORDER BY created_at DESC';
 
       const result = await this.pool.query(query, params);
-      return result.rows;
+      return result.rows.map(row => this.mapOrderRow(row));
     } catch (error) {
       this.logger.error(`Error getting user orders for ${userId}:`, error);
       return [];
     }
   }
 
-  // Private helper methods
+  /**
+   * Get all orders placed by a strategy, oldest first
+   */
+  async getStrategyOrders(strategyId: string): Promise<Order[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM orders WHERE strategy_id = $1 ORDER BY created_at ASC',
+      [strategyId]
+    );
+    return result.rows.map(row => this.mapOrderRow(row));
+  }
+
+  /**
+   * Get the trade recorded for a swap signature
+   */
+  async getTradeBySignature(signature: string): Promise<Trade | null> {
+    const result = await this.pool.query('SELECT * FROM trades WHERE signature = $1', [signature]);
+    return result.rows.length > 0 ? this.mapTradeRow(result.rows[0]) : null;
+  }
+
+  /**
+   * TransactionSender listener: fill orders that were failed while their swap went on to
+   * land, including TWAP orders stopped by a slice that failed. EXECUTING orders are left to
+   * their executor, or to scheduler recovery once stale.
+   */
+  async handleSwapStatus(
+    signature: string,
+    status: TransactionStatus,
+    context: { kind: string; reference?: string }
+  ): Promise<void> {
+    if (context.kind !== 'swap' || !context.reference || (status !== 'confirmed' && status !== 'finalized')) {
+      return;
+    }
 
-  private async getPendingOrders(): Promise<Order[]> {
     const result = await this.pool.query(
-      'SELECT * FROM orders WHERE status = $1 ORDER BY created_at ASC',
-      [OrderStatus.PENDING]
+      `SELECT * FROM orders
+       WHERE id = $1
+         AND (status = $2 OR (status = $3 AND twap_params IS NOT NULL AND next_slice_at IS NULL))`,
+      [context.reference, OrderStatus.FAILED, OrderStatus.PARTIALLY_FILLED]
+    );
+    if (result.rows.length > 0) {
+      await this.settleLandedSwap(this.mapOrderRow(result.rows[0]), signature);
+    }
+  }
+
+  /**
+   * Record the trade for a swap that landed without its executor recording it, sized from
+   * the quote it was sent with, and fill the order. For a TWAP order the swap completes the
+   * slice it was sent for, and the order carries on as if that slice had landed on time.
+   */
+  async settleLandedSwap(order: Order, signature: string): Promise<Trade | null> {
+    if (await this.getTradeBySignature(signature)) {
+      return null;
+    }
+
+    const event = await this.pool.query(
+      `SELECT quote FROM order_events WHERE order_id = $1 AND to_status = $2 AND quote IS NOT NULL
+       ORDER BY created_at DESC, id DESC LIMIT 1`,
+      [order.id, OrderStatus.EXECUTING]
+    );
+    const quote: Quote | undefined = event.rows[0]?.quote;
+    if (!quote) {
+      this.logger.error(`Swap ${signature} for order ${order.id} landed but no quote was recorded; settle it manually`);
+      return null;
+    }
+
+    const swapResult = await this.jupiterService.getLandedSwap(signature, quote, order.userWallet);
+    const inputAmount = await this.jupiterService.toUiAmount(order.inputMint, quote.inAmount);
+    const trade = await this.createTrade({ ...order, amount: inputAmount }, swapResult, quote, { isValid: true });
+
+    if (order.twap) {
+      const state = order.twapState || this.planLandedTwapSlices(order, inputAmount);
+      if (state.slicesExecuted + 1 < state.sliceAmounts.length) {
+        // Children armed when the TWAP stopped wait again until it finishes
+        await this.parkChildOrders(order.id, 'Parent TWAP resumed by a late slice');
+      }
+      await this.completeTwapSlice(order, state, trade);
+    } else {
+      await this.updateOrderStatus(order.id, OrderStatus.FILLED, 'Swap landed after execution was interrupted', {
+        signature,
+        fields: { locked_by: null, locked_until: null, filled_amount: inputAmount, executed_at: trade.executedAt }
+      });
+      await this.activateChildOrders(order.id, trade.outputAmount);
+      await this.portfolioManager.updatePortfolioAfterTrade(trade);
+    }
+
+    this.logger.warn(`Reconciled order ${order.id} with late swap ${signature}`);
+    return trade;
+  }
+
+  /**
+   * Map an orders row to an Order
+   */
+  mapOrderRow(row: any): Order {
+    const toNumber = (value: any) => (value === null || value === undefined ? undefined : parseFloat(value));
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      userWallet: row.user_wallet,
+      type: row.type,
+      side: row.side,
+      status: row.status,
+      inputMint: row.input_mint,
+      outputMint: row.output_mint,
+      inputSymbol: row.input_symbol || undefined,
+      outputSymbol: row.output_symbol || undefined,
+      amount: parseFloat(row.amount),
+      limitPrice: toNumber(row.limit_price),
+      stopPrice: toNumber(row.stop_price),
+      takeProfitPrice: toNumber(row.take_profit_price),
+      marketPrice: toNumber(row.market_price),
+      slippageTolerance: parseFloat(row.slippage_tolerance),
+      maxRetries: row.max_retries ?? undefined,
+      timeInForce: row.time_in_force || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      expiresAt: row.expires_at || undefined,
+      executedAt: row.executed_at || undefined,
+      failureReason: row.failure_reason || undefined,
+      strategyId: row.strategy_id || undefined,
+      isAutomated: row.is_automated ?? undefined,
+      parentOrderId: row.parent_order_id || undefined,
+      gridLevel: row.grid_level ?? undefined,
+      trailingStopPercentage: toNumber(row.trailing_stop_percentage),
+      trailingStopAmount: toNumber(row.trailing_stop_amount),
+      highWaterMark: toNumber(row.high_water_mark),
+      filledAmount: toNumber(row.filled_amount),
+      averageFillPrice: toNumber(row.average_fill_price),
+      twap: row.twap_params || undefined,
+      twapState: row.twap_state || undefined,
+      nextSliceAt: row.next_slice_at || undefined,
+      isPaper: row.is_paper ?? undefined
+    };
+  }
+
+  /**
+   * Price of the token being traded, quoted in the mint on the other side of the order
+   */
+  async getOrderPrice(order: Order): Promise<number | null> {
+    return order.side === OrderSide.BUY
+      ? this.jupiterService.getTokenPrice(order.outputMint, order.inputMint)
+      : this.jupiterService.getTokenPrice(order.inputMint, order.outputMint);
+  }
+
+  /**
+   * Build a synthetic order book for outputMint priced in inputMint. AMM pools have no
+   * resting orders, so quotes are probed at increasing sizes on both sides and each step
+   * of the price-impact curve becomes a level. Books are cached for a few seconds.
+   */
+  async getOrderBook(inputMint: string, outputMint: string, depth = 10): Promise<OrderBook | null> {
+    const levels = Math.min(Math.max(Math.floor(depth) || 10, 1), ORDER_BOOK_MAX_DEPTH);
+    const key = `${inputMint}:${outputMint}:${levels}`;
+    const cached = this.orderBookCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.book;
+    }
+
+    const [midPrice, solPrice] = await Promise.all([
+      this.jupiterService.getTokenPrice(outputMint, inputMint),
+      inputMint === SOL_MINT ? 1 : this.jupiterService.getTokenPrice(SOL_MINT, inputMint)
+    ]);
+    if (!midPrice || !solPrice) {
+      return null;
+    }
+
+    // Both sides probe the same notional sizes, in inputMint units
+    const notionals = Array.from({ length: levels }, (_, i) =>
+      ORDER_BOOK_BASE_SIZE_SOL * solPrice * Math.pow(ORDER_BOOK_SIZE_STEP, i)
+    );
+    const asks = await this.probeDepth(inputMint, outputMint, notionals, 'ask', midPrice);
+    const bids = await this.probeDepth(outputMint, inputMint, notionals.map(n => n / midPrice), 'bid', midPrice);
+
+    const book: OrderBook = {
+      mint: outputMint,
+      symbol: '',
+      quoteMint: inputMint,
+      midPrice,
+      bids,
+      asks,
+      timestamp: new Date()
+    };
+
+    const now = Date.now();
+    for (const [cachedKey, entry] of this.orderBookCache) {
+      if (entry.expiresAt <= now) this.orderBookCache.delete(cachedKey);
+    }
+    this.orderBookCache.set(key, { book, expiresAt: now + ORDER_BOOK_CACHE_MS });
+
+    return book;
+  }
+
+  // Private helper methods
+
+  private mapTradeRow(row: any): Trade {
+    const toNumber = (value: any) => (value === null || value === undefined ? undefined : parseFloat(value));
+
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      userId: row.user_id,
+      inputMint: row.input_mint,
+      outputMint: row.output_mint,
+      inputSymbol: row.input_symbol || undefined,
+      outputSymbol: row.output_symbol || undefined,
+      inputAmount: parseFloat(row.input_amount),
+      outputAmount: parseFloat(row.output_amount),
+      expectedOutputAmount: toNumber(row.expected_output_amount),
+      price: parseFloat(row.price),
+      side: row.side,
+      signature: row.signature,
+      status: row.status,
+      executedAt: row.executed_at,
+      fees: parseFloat(row.fees) || 0,
+      slippage: parseFloat(row.slippage) || 0,
+      referencePrice: toNumber(row.reference_price),
+      expectedSlippage: toNumber(row.expected_slippage),
+      priceImpact: toNumber(row.price_impact),
+      gasUsed: toNumber(row.gas_used),
+      dex: row.dex || undefined,
+      pnl: toNumber(row.profit_loss),
+      isSimulated: row.is_simulated ?? undefined,
+      mevStatus: row.mev_status || undefined,
+      mevLoss: toNumber(row.mev_loss)
+    };
+  }
+
+  /**
+   * Quote each size from fromMint to toMint and turn the marginal price between consecutive
+   * sizes into book levels. Level sizes are in the book's base token (the ask side's toMint).
+   */
+  private async probeDepth(
+    fromMint: string,
+    toMint: string,
+    sizes: number[],
+    side: 'bid' | 'ask',
+    midPrice: number
+  ): Promise<OrderBookLevel[]> {
+    const fills = await mapWithConcurrency(sizes, 3, async size => {
+      const quote = await this.jupiterService.getQuote(fromMint, toMint, size);
+      if (!quote) return null;
+      const received = await this.jupiterService.toUiAmount(toMint, quote.outAmount);
+      return side === 'ask'
+        ? { base: received, quote: size, routes: quote.routePlan.length }
+        : { base: size, quote: received, routes: quote.routePlan.length };
+    });
+
+    const levels: OrderBookLevel[] = [];
+    let prev = { base: 0, quote: 0 };
+    for (const fill of fills) {
+      if (!fill) continue;
+      const baseStep = fill.base - prev.base;
+      const quoteStep = fill.quote - prev.quote;
+      if (baseStep <= 0 || quoteStep <= 0) continue;
+
+      // Quotes are taken a moment apart, so keep the book monotonic
+      const last = levels[levels.length - 1];
+      let price = quoteStep / baseStep;
+      if (last) {
+        price = side === 'ask' ? Math.max(price, last.price) : Math.min(price, last.price);
+      }
+
+      const averagePrice = fill.quote / fill.base;
+      levels.push({
+        price,
+        size: baseStep,
+        count: fill.routes,
+        cumulativeSize: fill.base,
+        priceImpact: Math.abs(averagePrice - midPrice) / midPrice
+      });
+      prev = fill;
+    }
+
+    return levels;
+  }
+
+  /**
+   * Swap an order at the current market price and record the trade
+   */
+  private async fillOrder(order: Order, fillStatus: OrderStatus, fillReason?: string): Promise<Trade | null> {
+    try {
+      // 1. Risk check
+      const riskCheck = await this.riskManager.validateOrder(order);
+      if (!riskCheck.isValid) {
+        await this.updateOrderStatus(order.id, OrderStatus.REJECTED, riskCheck.reason);
+        return null;
+      }
+
+      // 2. Get current market price
+      const quote = await this.jupiterService.getQuote(
+        order.inputMint,
+        order.outputMint,
+        order.amount,
+        Math.round(order.slippageTolerance * 10000),
+        { dexes: order.dexes }
+      );
+
+      if (!quote) {
+        await this.updateOrderStatus(order.id, OrderStatus.FAILED, 'Unable to get quote');
+        return null;
+      }
+
+      // 3. Check price impact and the quoted price against the reference price
+      const quoteCheck = await this.riskManager.validateQuote(order, quote);
+      if (!quoteCheck.isValid) {
+        if (this.retriesRejectedQuotes(order)) {
+          this.logger.warn(`Quote rejected for order ${order.id}, retrying next tick: ${quoteCheck.reason}`);
+          return null;
+        }
+        await this.updateOrderStatus(order.id, OrderStatus.REJECTED, quoteCheck.reason);
+        return null;
+      }
+
+      // 4. Execute the swap; EXECUTING marks the order in flight until the outcome is recorded,
+      // and fails if the order was cancelled since it was loaded
+      if (!(await this.updateOrderStatus(order.id, OrderStatus.EXECUTING, undefined, { quote }))) {
+        return null;
+      }
+      const swapResult = order.isPaper
+        ? await this.paperTradingService.simulateSwap(order, quote)
+        : await this.jupiterService.executeSwap(quote, order.userWallet, order.slippageTolerance, order.id);
+
+      if (!swapResult.success) {
+        await this.updateOrderStatus(order.id, OrderStatus.FAILED, swapResult.error);
+        return null;
+      }
+
+      // 5. Create trade record
+      const trade = await this.createTrade(order, swapResult, quote, quoteCheck);
+
+      // 6. Update order status
+      await this.updateOrderStatus(order.id, fillStatus, fillReason, {
+        signature: trade.signature,
+        fields: { filled_amount: order.amount, executed_at: trade.executedAt }
+      });
+
+      // 7. Update portfolio; the order has filled whatever happens here
+      try {
+        await this.portfolioManager.updatePortfolioAfterTrade(trade);
+      } catch (error) {
+        this.logger.error(`Error updating portfolio after trade ${trade.id}:`, error);
+      }
+
+      this.logger.info(`Market order executed successfully: ${order.id}`);
+      return trade;
+
+    } catch (error) {
+      this.logger.error(`Error executing market order ${order.id}:`, error);
+      await this.updateOrderStatus(order.id, OrderStatus.FAILED, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Split a TWAP order into slice sizes, optionally randomised around the even split
+   */
+  private planTwapSlices(order: Order): number[] {
+    const { slices, sizeVariance = 0 } = order.twap;
+    const weights = Array.from({ length: slices }, () => 1 + sizeVariance * (Math.random() * 2 - 1));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const amounts = weights.map(weight => (order.amount * weight) / totalWeight);
+
+    // Put any rounding remainder on the last slice so the slices add up exactly
+    const planned = amounts.slice(0, -1).reduce((sum, amount) => sum + amount, 0);
+    amounts[amounts.length - 1] = order.amount - planned;
+    return amounts;
+  }
+
+  /**
+   * Slice plan for a TWAP whose first slice landed before its plan was saved: that slice,
+   * then the rest of the order split over the remaining slices
+   */
+  private planLandedTwapSlices(order: Order, landedAmount: number): TwapState {
+    const rest = order.twap.slices > 1
+      ? this.planTwapSlices({
+          ...order,
+          amount: Math.max(order.amount - landedAmount, 0),
+          twap: { ...order.twap, slices: order.twap.slices - 1 }
+        })
+      : [];
+    return { sliceAmounts: [landedAmount, ...rest], slicesExecuted: 0 };
+  }
+
+  private getNextSliceTime(order: Order): Date {
+    const { slices, duration, timingVariance = 0 } = order.twap;
+    const interval = (parseIntervalMs(duration) || 0) / slices;
+    const jitter = 1 + timingVariance * (Math.random() * 2 - 1);
+    return new Date(Date.now() + interval * jitter);
+  }
+
+  private async recordTwapProgress(
+    order: Order,
+    state: TwapState,
+    status: OrderStatus,
+    nextSliceAt: Date | null,
+    reason?: string,
+    signature?: string
+  ): Promise<void> {
+    const fills = await this.pool.query(
+      'SELECT SUM(output_amount) / NULLIF(SUM(input_amount), 0) AS average_price FROM trades WHERE order_id = $1',
+      [order.id]
+    );
+
+    const fields: Record<string, any> = {
+      filled_amount: this.getTwapFilledAmount(state),
+      twap_state: JSON.stringify(state),
+      next_slice_at: nextSliceAt,
+      average_fill_price: fills.rows[0].average_price
+    };
+    if (status === OrderStatus.FILLED) {
+      fields.executed_at = new Date();
+    }
+
+    await this.updateOrderStatus(order.id, status, reason, { signature, fields });
+  }
+
+  /**
+   * Book a TWAP slice that landed and move the order on: schedule the next slice, or fill
+   * the order after the last one
+   */
+  private async completeTwapSlice(order: Order, state: TwapState, trade: Trade): Promise<void> {
+    try {
+      await this.portfolioManager.updatePortfolioAfterTrade(trade);
+    } catch (error) {
+      this.logger.error(`Error updating portfolio after trade ${trade.id}:`, error);
+    }
+
+    state.slicesExecuted++;
+    if (state.slicesExecuted === state.sliceAmounts.length) {
+      await this.finishTwap(order, state, OrderStatus.FILLED, undefined, trade.signature);
+    } else {
+      await this.recordTwapProgress(
+        order,
+        state,
+        OrderStatus.PARTIALLY_FILLED,
+        this.getNextSliceTime(order),
+        undefined,
+        trade.signature
+      );
+    }
+
+    this.logger.info(`TWAP slice ${state.slicesExecuted}/${state.sliceAmounts.length} executed for ${order.id}`);
+  }
+
+  /**
+   * Stop a TWAP order. Whatever already filled stays filled: an abort after some slices
+   * leaves the order PARTIALLY_FILLED, and bracket children are sized from what the slices received.
+   */
+  private async finishTwap(
+    order: Order,
+    state: TwapState,
+    status: OrderStatus,
+    reason?: string,
+    signature?: string
+  ): Promise<void> {
+    const filledAmount = this.getTwapFilledAmount(state);
+    const finalStatus = status !== OrderStatus.FILLED && filledAmount > 0 ? OrderStatus.PARTIALLY_FILLED : status;
+
+    await this.recordTwapProgress(order, state, finalStatus, null, reason, signature);
+    await this.settleChildOrders(order.id);
+  }
+
+  /**
+   * Stop-loss, take-profit, trailing-stop and bracket orders protect a position, and a grid's
+   * legs are what keeps the grid running, so when their quote fails the impact or oracle check
+   * they stay PENDING and fire again on the next tick instead of being rejected. IOC and FOK
+   * orders never wait.
+   */
+  private retriesRejectedQuotes(order: Order): boolean {
+    if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+      return false;
+    }
+    return (
+      order.type === OrderType.STOP_LOSS ||
+      order.type === OrderType.TAKE_PROFIT ||
+      order.type === OrderType.TRAILING_STOP ||
+      !!order.parentOrderId ||
+      order.gridLevel !== undefined
     );
-    return result.rows;
   }
 
-  private checkSlippage(order: Order, quote: any): { isValid: boolean; reason?: string } {
-    const expectedPrice = order.limitPrice || order.marketPrice;
-    const quotedPrice = parseFloat(quote.outAmount) / parseFloat(quote.inAmount);
-    
-    const slippage = Math.abs(quotedPrice - expectedPrice) / expectedPrice;
-    
-    if (slippage > order.slippageTolerance) {
-      return {
-        isValid: false,
-        reason: `Slippage ${(slippage * 100).toFixed(2)}% exceeds tolerance ${(order.slippageTolerance * 100).toFixed(2)}%`
-      };
+  /**
+   * Output an order's recorded trades have received so far
+   */
+  private async getReceivedAmount(orderId: string): Promise<number> {
+    const result = await this.pool.query('SELECT SUM(output_amount) AS amount FROM trades WHERE order_id = $1', [orderId]);
+    return parseFloat(result.rows[0].amount) || 0;
+  }
+
+  /**
+   * Whether an order has ended without filling, as opposed to still waiting to fill, being
+   * executed elsewhere or having filled
+   */
+  private async isOrderClosedUnfilled(orderId: string): Promise<boolean> {
+    const result = await this.pool.query('SELECT status FROM orders WHERE id = $1', [orderId]);
+    return [OrderStatus.CANCELLED, OrderStatus.REJECTED, OrderStatus.FAILED, OrderStatus.EXPIRED]
+      .includes(result.rows[0]?.status);
+  }
+
+  private getTwapFilledAmount(state: TwapState): number {
+    return state.sliceAmounts
+      .slice(0, state.slicesExecuted)
+      .reduce((sum, amount) => sum + amount, 0);
+  }
+
+  private isPriceConditionMet(order: Order, currentPrice: number): boolean {
+    switch (order.type) {
+      case OrderType.LIMIT:
+        return this.shouldExecuteLimitOrder(order, currentPrice);
+      case OrderType.STOP_LOSS:
+        return this.shouldExecuteStopLoss(order, currentPrice);
+      case OrderType.TAKE_PROFIT:
+        return order.side === 'sell' && currentPrice >= order.takeProfitPrice;
+      default:
+        return false;
     }
+  }
 
-    return { isValid: true };
+  /**
+   * Largest size (the full amount, then successive halves) whose quote stays within the
+   * order's slippage tolerance, or null if none does
+   */
+  private async getFillableAmount(order: Order, maxReductions: number): Promise<number | null> {
+    let amount = order.amount;
+    for (let attempt = 0; attempt <= maxReductions; attempt++) {
+      const quote = await this.jupiterService.getQuote(order.inputMint, order.outputMint, amount);
+      if (quote && parseFloat(quote.priceImpactPct) <= order.slippageTolerance) {
+        return amount;
+      }
+      amount = amount / 2;
+    }
+    return null;
   }
 
   private shouldExecuteLimitOrder(order: Order, currentPrice: number): boolean {
@@ -258,11 +1122,23 @@ export class OrderExecutionService {
     return false;
   }
 
-  private async executeTakeProfitOrder(order: Order): Promise<Trade | null> {
-    const currentPrice = await this.jupiterService.getTokenPrice(
-      order.inputMint,
-      order.outputMint
-    );
+  /**
+   * Stop level for a trailing stop at the given high-water mark. When both a percentage and an
+   * absolute retrace are set, whichever is hit first fires the order.
+   */
+  private getTrailingStopPrice(order: Order, highWaterMark: number): number {
+    const stops: number[] = [];
+    if (order.trailingStopPercentage) {
+      stops.push(highWaterMark * (1 - order.trailingStopPercentage / 100));
+    }
+    if (order.trailingStopAmount) {
+      stops.push(highWaterMark - order.trailingStopAmount);
+    }
+    return Math.max(...stops);
+  }
+
+  private async executeTakeProfitOrder(order: Order, price?: number): Promise<Trade | null> {
+    const currentPrice = price ?? await this.getOrderPrice(order);
 
     if (!currentPrice) return null;
 
@@ -274,22 +1150,141 @@ export class OrderExecutionService {
     return null;
   }
 
-  private async createTrade(order: Order, swapResult: any, quote: any): Promise<Trade> {
+  /**
+   * Execute one side of an OCO pair. The sibling is parked in WAITING in the same transaction
+   * that claims this order, so two children can never both fill. Once the swap lands the
+   * sibling is cancelled; if it fails the sibling is re-armed to keep the position protected.
+   */
+  private async executeBracketChild(order: Order): Promise<Trade | null> {
+    const parkedSiblings: string[] = [];
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Lock the parent so concurrent siblings serialize on it
+      await client.query('SELECT id FROM orders WHERE id = $1 FOR UPDATE', [order.parentOrderId]);
+      const self = await client.query('SELECT status FROM orders WHERE id = $1', [order.id]);
+      if (self.rows[0]?.status !== OrderStatus.PENDING) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      const siblings = await client.query(
+        'SELECT id FROM orders WHERE parent_order_id = $1 AND id <> $2 AND status = $3',
+        [order.parentOrderId, order.id, OrderStatus.PENDING]
+      );
+      for (const sibling of siblings.rows) {
+        await this.stateMachine.transition(sibling.id, OrderStatus.WAITING, { reason: OCO_PARK_REASON }, client);
+        parkedSiblings.push(sibling.id);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.logger.error(`Error claiming bracket order ${order.id}:`, error);
+      return null;
+    } finally {
+      client.release();
+    }
+
+    const trade = await this.fillOrder(order, OrderStatus.FILLED);
+    for (const siblingId of parkedSiblings) {
+      if (trade) {
+        await this.updateOrderStatus(siblingId, OrderStatus.CANCELLED, OCO_CANCEL_REASON);
+      } else {
+        await this.updateOrderStatus(siblingId, OrderStatus.PENDING);
+      }
+    }
+    return trade;
+  }
+
+  /**
+   * Arm waiting bracket children once their (buy) parent has filled. Children sell exactly
+   * what the parent's swaps received. Children that cannot be armed are cancelled, never
+   * left waiting, so the position visibly has no protection.
+   */
+  private async activateChildOrders(parentOrderId: string, receivedAmount: number): Promise<void> {
+    try {
+      const waiting = await this.pool.query(
+        'SELECT id FROM orders WHERE parent_order_id = $1 AND status = $2',
+        [parentOrderId, OrderStatus.WAITING]
+      );
+      if (waiting.rows.length === 0) {
+        return;
+      }
+
+      if (!(receivedAmount > 0)) {
+        this.logger.error(`Unable to size bracket orders for ${parentOrderId}: received amount unknown`);
+        await this.cancelChildOrders(parentOrderId, 'Bracket orders could not be sized from the parent fill');
+        return;
+      }
+
+      for (const child of waiting.rows) {
+        await this.updateOrderStatus(child.id, OrderStatus.PENDING, undefined, { fields: { amount: receivedAmount } });
+      }
+      this.logger.info(`Activated ${waiting.rows.length} bracket orders for ${parentOrderId}`);
+    } catch (error) {
+      this.logger.error(`Error activating bracket orders for ${parentOrderId}:`, error);
+      await this.cancelChildOrders(parentOrderId, 'Bracket orders could not be activated').catch(cancelError =>
+        this.logger.error(`Error cancelling bracket orders for ${parentOrderId}:`, cancelError)
+      );
+    }
+  }
+
+  /**
+   * Move armed bracket children back to waiting while their parent is still filling
+   */
+  private async parkChildOrders(parentOrderId: string, reason: string): Promise<void> {
+    const armed = await this.pool.query(
+      'SELECT id FROM orders WHERE parent_order_id = $1 AND status = $2',
+      [parentOrderId, OrderStatus.PENDING]
+    );
+    for (const child of armed.rows) {
+      await this.updateOrderStatus(child.id, OrderStatus.WAITING, reason);
+    }
+  }
+
+  private async cancelChildOrders(parentOrderId: string, reason: string): Promise<void> {
+    const waiting = await this.pool.query(
+      'SELECT id FROM orders WHERE parent_order_id = $1 AND status = $2',
+      [parentOrderId, OrderStatus.WAITING]
+    );
+    for (const child of waiting.rows) {
+      await this.updateOrderStatus(child.id, OrderStatus.CANCELLED, reason);
+    }
+  }
+
+  private async createTrade(
+    order: Order,
+    swapResult: SwapResult,
+    quote: Quote,
+    quoteCheck: QuoteCheckResult
+  ): Promise<Trade> {
+    // Quotes carry raw base units; trades are stored in UI amounts. The swap reports what
+    // was actually received when it can, otherwise the quote stands in for it.
+    const inputAmount = await this.jupiterService.toUiAmount(order.inputMint, quote.inAmount);
+    const expectedOutputAmount = await this.jupiterService.toUiAmount(order.outputMint, quote.outAmount);
+    const outputAmount = swapResult.outputAmount ?? expectedOutputAmount;
+    const price = outputAmount / inputAmount;
+    const { referencePrice } = quoteCheck;
+
     const trade: Trade = {
       id: this.generateTradeId(),
       orderId: order.id,
       userId: order.userId,
       inputMint: order.inputMint,
       outputMint: order.outputMint,
-      inputAmount: parseFloat(quote.inAmount),
-      outputAmount: parseFloat(quote.outAmount),
-      price: parseFloat(quote.outAmount) / parseFloat(quote.inAmount),
+      inputAmount,
+      outputAmount,
+      expectedOutputAmount,
+      price,
       side: order.side,
-      signature: swapResult.signature,
+      signature: swapResult.signature!,
       status: 'completed',
       executedAt: new Date(),
       fees: swapResult.fees || 0,
-      slippage: swapResult.slippage || 0
+      slippage: referencePrice ? (referencePrice - price) / referencePrice : swapResult.slippage || 0,
+      referencePrice,
+      expectedSlippage: quoteCheck.expectedSlippage,
+      priceImpact: quoteCheck.priceImpact,
+      isSimulated: order.isPaper || false
     };
 
     // Save to database
@@ -297,25 +1292,38 @@ export class OrderExecutionService {
       INSERT INTO trades (
         id, order_id, user_id, input_mint, output_mint, 
         input_amount, output_amount, price, side, signature, 
-        status, executed_at, fees, slippage
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        status, executed_at, fees, slippage, is_simulated,
+        reference_price, expected_slippage, price_impact, expected_output_amount
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
     `, [
       trade.id, trade.orderId, trade.userId, trade.inputMint, trade.outputMint,
       trade.inputAmount, trade.outputAmount, trade.price, trade.side, trade.signature,
-      trade.status, trade.executedAt, trade.fees, trade.slippage
+      trade.status, trade.executedAt, trade.fees, trade.slippage, trade.isSimulated,
+      trade.referencePrice ?? null, trade.expectedSlippage ?? null, trade.priceImpact ?? null,
+      trade.expectedOutputAmount
     ]);
 
     return trade;
   }
 
-  private async updateOrderStatus(orderId: string, status: OrderStatus, reason?: string): Promise<void> {
-    await this.pool.query(
-      'UPDATE orders SET status = $1, failure_reason = $2, updated_at = NOW() WHERE id = $3',
-      [status, reason, orderId]
-    );
+  /**
+   * Move an order through the state machine. Returns false (and logs) if the transition
+   * is not allowed from the order's current status.
+   */
+  private async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    reason?: string,
+    details: Omit<OrderTransitionDetails, 'reason'> = {}
+  ): Promise<boolean> {
+    return this.stateMachine.tryTransition(orderId, status, { reason, ...details });
   }
 
   private generateTradeId(): string {
     return `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
+
+  private generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,293 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { Pool } from 'pg';
+import winston from 'winston';
+import { Order, OrderSide, OrderStatus } from '../../types/trading';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { OrderExecutionService } from './OrderExecutionService';
+import { OrderStateMachine } from './OrderStateMachine';
+
+export interface OrderSchedulerOptions {
+  batchSize: number; // Orders claimed per tick
+  concurrency: number; // Price fetches and executions in flight at once
+  leaseMs: number; // How long a claim is held before another instance may take the order
+  staleExecutionMs: number; // EXECUTING orders older than this are treated as interrupted
+}
+
+const DEFAULT_OPTIONS: OrderSchedulerOptions = {
+  batchSize: 200,
+  concurrency: 5,
+  leaseMs: 5 * 60 * 1000,
+  staleExecutionMs: 10 * 60 * 1000
+};
+
+// Trades are sized in the token's base units, so a fill this close to the order amount is full
+const FILL_TOLERANCE = 1e-6;
+
+/**
+ * Works through pending orders. Orders are claimed with a lease under FOR UPDATE SKIP LOCKED,
+ * so several backend instances can run side by side without executing an order twice.
+ */
+export class OrderScheduler {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private orderExecutionService: OrderExecutionService;
+  private stateMachine: OrderStateMachine;
+  private options: OrderSchedulerOptions;
+  private instanceId: string;
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    pool: Pool,
+    logger: winston.Logger,
+    orderExecutionService: OrderExecutionService,
+    options: Partial<OrderSchedulerOptions> = {}
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.orderExecutionService = orderExecutionService;
+    this.stateMachine = new OrderStateMachine(pool, logger);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Start the order scheduler
+   */
+  start(tickMs = 10 * 1000): void {
+    if (this.timer) return;
+    if (!this.orderExecutionService.isLiveTradingEnabled()) {
+      this.logger.warn('No transaction signer configured: live orders will not be processed, only paper orders');
+    }
+    this.timer = setInterval(() => this.tick(), tickMs);
+    this.tick();
+    this.logger.info(`Order scheduler ${this.instanceId} started (tick ${tickMs}ms)`);
+  }
+
+  /**
+   * Stop the order scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run one scheduling pass: recover interrupted orders, expire old ones, then claim and
+   * check a batch of pending orders
+   */
+  async tick(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      await this.recoverInterruptedOrders();
+      await this.orderExecutionService.expireOrders();
+
+      const orders = await this.claimOrders();
+      if (orders.length === 0) return;
+
+      const prices = await this.fetchPrices(orders);
+
+      await mapWithConcurrency(orders, this.options.concurrency, async order => {
+        try {
+          if (order.twap) {
+            await this.orderExecutionService.processOrder(order);
+            return;
+          }
+
+          const price = prices.get(this.getPriceKey(order));
+          if (price) {
+            await this.orderExecutionService.processOrder(order, price);
+          }
+        } catch (error) {
+          this.logger.error(`Error processing order ${order.id}:`, error);
+        } finally {
+          await this.releaseOrder(order.id);
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error processing pending orders:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Settle orders left EXECUTING by a crashed instance. A swap transaction that landed without
+   * a trade is recorded now, and one still in flight is waited for. Otherwise a recorded trade
+   * means the swap landed; without one the outcome is unknown, so the order is failed rather
+   * than retried to avoid swapping twice. Bracket children are then armed from what the order
+   * received, or cancelled if it received nothing.
+   */
+  async recoverInterruptedOrders(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT o.*,
+              COUNT(t.id) AS trade_count, SUM(t.input_amount) AS traded_amount,
+              MAX(t.executed_at) AS last_executed_at,
+              (SELECT p.signature FROM pending_transactions p
+               WHERE p.reference = o.id AND p.kind = 'swap' AND p.status IN ('confirmed', 'finalized')
+                 AND NOT EXISTS (SELECT 1 FROM trades lt WHERE lt.signature = p.signature)
+               ORDER BY p.created_at DESC LIMIT 1) AS landed_signature,
+              EXISTS (SELECT 1 FROM pending_transactions p
+                      WHERE p.reference = o.id AND p.kind = 'swap' AND p.status IN ('pending', 'processed')
+              ) AS swap_in_flight
+       FROM orders o
+       LEFT JOIN trades t ON t.order_id = o.id
+       WHERE o.status = $1
+         AND o.updated_at < NOW() - ($2 || ' milliseconds')::INTERVAL
+         AND (o.locked_until IS NULL OR o.locked_until < NOW())
+       GROUP BY o.id`,
+      [OrderStatus.EXECUTING, this.options.staleExecutionMs]
+    );
+
+    let recovered = 0;
+    for (const row of result.rows) {
+      const hasTrades = parseInt(row.trade_count) > 0;
+      const tradedAmount = parseFloat(row.traded_amount) || 0;
+      const releaseLease = { locked_by: null, locked_until: null };
+      let settled: boolean;
+
+      if (row.landed_signature) {
+        try {
+          await this.orderExecutionService.settleLandedSwap(
+            this.orderExecutionService.mapOrderRow(row),
+            row.landed_signature
+          );
+          recovered++;
+        } catch (error) {
+          this.logger.error(`Error settling landed swap ${row.landed_signature} for order ${row.id}:`, error);
+        }
+        continue;
+      }
+      if (row.swap_in_flight) {
+        this.logger.info(`Interrupted order ${row.id} has a swap in flight; waiting for it to settle`);
+        continue;
+      }
+
+      if (row.twap_params) {
+        // The last slice may or may not have been counted in twap_state, so stop the TWAP
+        // where it is and take the filled amount from the recorded trades
+        settled = await this.stateMachine.tryTransition(
+          row.id,
+          hasTrades ? OrderStatus.PARTIALLY_FILLED : OrderStatus.FAILED,
+          {
+            reason: 'TWAP interrupted during a slice; remaining slices cancelled',
+            fields: { ...releaseLease, next_slice_at: null, filled_amount: tradedAmount }
+          }
+        );
+      } else if (hasTrades) {
+        // An IOC fill may have swapped less than the order amount
+        const isShort = tradedAmount < parseFloat(row.amount) * (1 - FILL_TOLERANCE);
+        settled = await this.stateMachine.tryTransition(row.id, isShort ? OrderStatus.PARTIALLY_FILLED : OrderStatus.FILLED, {
+          reason: 'Recovered after interruption: trade was recorded',
+          fields: { ...releaseLease, filled_amount: tradedAmount, executed_at: row.last_executed_at }
+        });
+      } else {
+        settled = await this.stateMachine.tryTransition(row.id, OrderStatus.FAILED, {
+          reason: 'Execution interrupted; swap outcome unknown, check wallet before retrying',
+          fields: releaseLease
+        });
+      }
+
+      if (settled) {
+        try {
+          await this.orderExecutionService.settleChildOrders(row.id, 'Parent order interrupted without filling');
+        } catch (error) {
+          this.logger.error(`Error settling bracket orders for recovered order ${row.id}:`, error);
+        }
+      }
+
+      this.logger.warn(`Recovered interrupted order ${row.id} (${hasTrades ? 'trade recorded' : 'no trade recorded'})`);
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  // Private helper methods
+
+  /**
+   * Claim a batch of due orders for this instance. Rows locked by a concurrent claim are
+   * skipped, and an expired lease makes an order claimable again. Orders checked longest ago
+   * go first, so a backlog larger than one batch rotates instead of starving newer orders.
+   */
+  private async claimOrders(): Promise<Order[]> {
+    const result = await this.pool.query(
+      `UPDATE orders SET locked_by = $1, locked_until = NOW() + ($2 || ' milliseconds')::INTERVAL,
+         last_checked_at = NOW()
+       WHERE id IN (
+         SELECT id FROM orders
+         WHERE (status = $3 OR (status = $4 AND next_slice_at IS NOT NULL))
+           AND (next_slice_at IS NULL OR next_slice_at <= NOW())
+           AND (locked_until IS NULL OR locked_until < NOW())
+           AND (is_paper = true OR $6::BOOLEAN)
+         ORDER BY last_checked_at ASC NULLS FIRST, created_at ASC
+         LIMIT $5
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [
+        this.instanceId,
+        this.options.leaseMs,
+        OrderStatus.PENDING,
+        OrderStatus.PARTIALLY_FILLED,
+        this.options.batchSize,
+        this.orderExecutionService.isLiveTradingEnabled()
+      ]
+    );
+
+    return result.rows
+      .map(row => this.orderExecutionService.mapOrderRow(row))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  private async releaseOrder(orderId: string): Promise<void> {
+    try {
+      await this.pool.query(
+        'UPDATE orders SET locked_by = NULL, locked_until = NULL WHERE id = $1 AND locked_by = $2',
+        [orderId, this.instanceId]
+      );
+    } catch (error) {
+      this.logger.error(`Error releasing order ${orderId}:`, error);
+    }
+  }
+
+  /**
+   * Fetch one price per traded pair, shared by every trigger order on that pair
+   */
+  private async fetchPrices(orders: Order[]): Promise<Map<string, number | null>> {
+    const groups = new Map<string, Order>();
+    for (const order of orders) {
+      if (order.twap) continue; // TWAP slices are quoted per slice
+      const key = this.getPriceKey(order);
+      if (!groups.has(key)) {
+        groups.set(key, order);
+      }
+    }
+
+    const prices = new Map<string, number | null>();
+    await mapWithConcurrency(Array.from(groups.entries()), this.options.concurrency, async ([key, order]) => {
+      try {
+        prices.set(key, await this.orderExecutionService.getOrderPrice(order));
+      } catch (error) {
+        this.logger.warn(`Price fetch failed for ${key}: ${error.message}`);
+        prices.set(key, null);
+      }
+    });
+
+    return prices;
+  }
+
+  /**
+   * Orders share a price when they trade the same token against the same quote mint
+   */
+  private getPriceKey(order: Order): string {
+    return order.side === OrderSide.BUY
+      ? `${order.outputMint}/${order.inputMint}`
+      : `${order.inputMint}/${order.outputMint}`;
+  }
+}
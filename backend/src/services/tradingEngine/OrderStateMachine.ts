@@ -0,0 +1,162 @@
+import { Pool, PoolClient } from 'pg';
+import winston from 'winston';
+import { TradingError } from '../../middleware/errorHandler';
+import { Order, OrderEvent, OrderStatus, Quote } from '../../types/trading';
+
+/**
+ * Legal order status transitions. Terminal statuses have no way out, apart from FAILED
+ * orders whose swap turns out to have landed.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.WAITING]: [OrderStatus.PENDING, OrderStatus.CANCELLED, OrderStatus.EXPIRED],
+  [OrderStatus.PENDING]: [
+    OrderStatus.WAITING, // OCO sibling parked while the other side executes
+    OrderStatus.EXECUTING,
+    OrderStatus.CANCELLED,
+    OrderStatus.REJECTED,
+    OrderStatus.FAILED,
+    OrderStatus.EXPIRED
+  ],
+  [OrderStatus.EXECUTING]: [OrderStatus.FILLED, OrderStatus.PARTIALLY_FILLED, OrderStatus.FAILED],
+  // TWAP orders keep recording progress and executing further slices while partially filled,
+  // and a slice that lands late can complete a TWAP that had stopped
+  [OrderStatus.PARTIALLY_FILLED]: [OrderStatus.PARTIALLY_FILLED, OrderStatus.EXECUTING, OrderStatus.FILLED],
+  [OrderStatus.FILLED]: [],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REJECTED]: [],
+  // A swap given up on as failed can still land; reconciling it records the fill
+  [OrderStatus.FAILED]: [OrderStatus.FILLED, OrderStatus.PARTIALLY_FILLED],
+  [OrderStatus.EXPIRED]: []
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export interface OrderTransitionDetails {
+  reason?: string;
+  quote?: Quote;
+  signature?: string;
+  fields?: Record<string, any>; // Other order columns to update with the status
+}
+
+/**
+ * Applies order status changes through ORDER_TRANSITIONS and records each one in order_events
+ */
+export class OrderStateMachine {
+  private pool: Pool;
+  private logger: winston.Logger;
+
+  constructor(pool: Pool, logger: winston.Logger) {
+    this.pool = pool;
+    this.logger = logger;
+  }
+
+  /**
+   * Move an order to a new status. The status check, update and event insert run as one
+   * statement, so a concurrent transition cannot slip in between. Throws a TradingError with
+   * code INVALID_ORDER_TRANSITION if the order's current status does not allow the move.
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    details: OrderTransitionDetails = {},
+    client: Pool | PoolClient = this.pool
+  ): Promise<OrderStatus> {
+    const allowedFrom = (Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).filter(from => canTransition(from, to));
+    const fields = details.fields || {};
+    const columns = Object.keys(fields);
+    const setFields = columns.map((column, i) => `, ${column} = $${i + 7}`).join('');
+
+    const result = await client.query(`
+      WITH current AS (
+        SELECT id, status FROM orders WHERE id = $1 FOR UPDATE
+      ), updated AS (
+        UPDATE orders o SET status = $2, failure_reason = $3, updated_at = NOW()${setFields}
+        FROM current
+        WHERE o.id = current.id AND current.status = ANY($4)
+        RETURNING o.id, current.status AS from_status
+      )
+      INSERT INTO order_events (order_id, from_status, to_status, reason, quote, signature)
+      SELECT id, from_status, $2, $3, $5, $6 FROM updated
+      RETURNING from_status
+    `, [
+      orderId,
+      to,
+      details.reason,
+      allowedFrom,
+      details.quote ? JSON.stringify(details.quote) : null,
+      details.signature,
+      ...columns.map(column => fields[column])
+    ]);
+
+    if (result.rowCount === 0) {
+      const current = await client.query('SELECT status FROM orders WHERE id = $1', [orderId]);
+      const from = current.rows[0]?.status;
+      throw new TradingError(
+        from ? `Order ${orderId} cannot move from ${from} to ${to}` : `Order ${orderId} not found`,
+        'INVALID_ORDER_TRANSITION'
+      );
+    }
+
+    return result.rows[0].from_status;
+  }
+
+  /**
+   * Like transition, but logs and returns false instead of throwing on an illegal move
+   */
+  async tryTransition(
+    orderId: string,
+    to: OrderStatus,
+    details: OrderTransitionDetails = {},
+    client: Pool | PoolClient = this.pool
+  ): Promise<boolean> {
+    try {
+      await this.transition(orderId, to, details, client);
+      return true;
+    } catch (error) {
+      if (error instanceof TradingError) {
+        this.logger.warn(error.message);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record the creation of an order as its first event
+   */
+  async recordCreated(order: Order, client: Pool | PoolClient = this.pool): Promise<void> {
+    await client.query(
+      'INSERT INTO order_events (order_id, from_status, to_status, reason) VALUES ($1, NULL, $2, $3)',
+      [order.id, order.status, 'Order created']
+    );
+  }
+
+  /**
+   * Get the full event history of a user's order, oldest first. Returns null if the
+   * order does not exist or belongs to someone else.
+   */
+  async getOrderEvents(orderId: string, userId: string): Promise<OrderEvent[] | null> {
+    const order = await this.pool.query('SELECT id FROM orders WHERE id = $1 AND user_id = $2', [orderId, userId]);
+    if (order.rows.length === 0) {
+      return null;
+    }
+
+    const result = await this.pool.query(
+      'SELECT * FROM order_events WHERE order_id = $1 ORDER BY created_at ASC, id ASC',
+      [orderId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      orderId: row.order_id,
+      fromStatus: row.from_status || undefined,
+      toStatus: row.to_status,
+      reason: row.reason || undefined,
+      quote: row.quote || undefined,
+      signature: row.signature || undefined,
+      createdAt: row.created_at
+    }));
+  }
+}
@@ -0,0 +1,283 @@
+import { Pool } from 'pg';
+import winston from 'winston';
+import { DEFAULT_RISK_PARAMETERS, SOL_MINT } from '../../config/trading';
+import {
+  Order,
+  OrderSide,
+  Quote,
+  QuoteCheckResult,
+  RiskCheckResult,
+  RiskParameters,
+  RiskRejectionCode
+} from '../../types/trading';
+import { DexScreenerService } from '../dataProviders/DexScreenerService';
+import { JupiterService } from '../dataProviders/JupiterService';
+import { PortfolioManager } from '../portfolio/PortfolioManager';
+
+export class RiskManager {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private jupiterService: JupiterService;
+  private portfolioManager: PortfolioManager;
+  private dexScreenerService: DexScreenerService;
+
+  constructor(
+    pool: Pool,
+    logger: winston.Logger,
+    jupiterService: JupiterService,
+    portfolioManager: PortfolioManager,
+    dexScreenerService: DexScreenerService
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.jupiterService = jupiterService;
+    this.portfolioManager = portfolioManager;
+    this.dexScreenerService = dexScreenerService;
+  }
+
+  /**
+   * Validate an order against the user's risk parameters.
+   * Cheap checks run first so we only hit price and liquidity APIs when needed.
+   */
+  async validateOrder(order: Order): Promise<RiskCheckResult> {
+    const params = await this.getRiskParameters(order.userId);
+
+    // 1. Blacklisted tokens
+    const blacklisted = [order.inputMint, order.outputMint].find(mint =>
+      params.blacklistedTokens.includes(mint)
+    );
+    if (blacklisted) {
+      return this.reject(RiskRejectionCode.BLACKLISTED_TOKEN, `Token ${blacklisted} is blacklisted`);
+    }
+
+    // 2. Slippage tolerance
+    if (order.slippageTolerance > params.maxSlippage) {
+      return this.reject(
+        RiskRejectionCode.MAX_SLIPPAGE,
+        `Slippage tolerance ${(order.slippageTolerance * 100).toFixed(2)}% exceeds limit ${(params.maxSlippage * 100).toFixed(2)}%`
+      );
+    }
+
+    // 3. Order rate
+    const recentOrders = await this.countRecentOrders(order.userId, order.id);
+    if (recentOrders >= params.maxOrdersPerHour) {
+      return this.reject(
+        RiskRejectionCode.MAX_ORDERS_PER_HOUR,
+        `${recentOrders} orders placed in the last hour, limit is ${params.maxOrdersPerHour}`
+      );
+    }
+
+    // Remaining checks only apply to orders that add exposure; sells must always be able to exit
+    if (order.side !== OrderSide.BUY) {
+      return { isValid: true };
+    }
+
+    // 4. Liquidity of the token being bought
+    if (params.minLiquidity > 0 && order.outputMint !== SOL_MINT) {
+      const liquidity = await this.dexScreenerService.getTokenLiquidity(order.outputMint);
+      if (liquidity === null || liquidity < params.minLiquidity) {
+        return this.reject(
+          RiskRejectionCode.MIN_LIQUIDITY,
+          liquidity === null
+            ? `Liquidity for ${order.outputMint} is unknown`
+            : `Liquidity $${liquidity.toFixed(0)} is below minimum $${params.minLiquidity.toFixed(0)}`
+        );
+      }
+    }
+
+    const orderValue = await this.getOrderValueInSol(order);
+    if (orderValue === null) {
+      return this.reject(RiskRejectionCode.PRICE_UNAVAILABLE, `Unable to price ${order.inputMint} in SOL`);
+    }
+
+    const portfolio = await this.portfolioManager.getUserPortfolio(order.userId, order.isPaper ? 'paper' : 'live');
+
+    // 5. Position size after this order
+    const existingPosition = portfolio?.positions.find(position => position.mint === order.outputMint);
+    const positionValue = (existingPosition?.currentValue || 0) + orderValue;
+    if (positionValue > params.maxPositionSize) {
+      return this.reject(
+        RiskRejectionCode.MAX_POSITION_SIZE,
+        `Position value ${positionValue.toFixed(4)} SOL exceeds limit ${params.maxPositionSize} SOL`
+      );
+    }
+
+    // 6. Share of portfolio committed by this order (skipped until the portfolio has a value)
+    if (portfolio && portfolio.totalValue > 0) {
+      const portfolioRisk = orderValue / portfolio.totalValue;
+      if (portfolioRisk > params.maxPortfolioRisk) {
+        return this.reject(
+          RiskRejectionCode.MAX_PORTFOLIO_RISK,
+          `Order is ${(portfolioRisk * 100).toFixed(2)}% of portfolio, limit is ${(params.maxPortfolioRisk * 100).toFixed(2)}%`
+        );
+      }
+    }
+
+    // 7. Daily loss
+    if (portfolio && portfolio.dailyPnl <= -params.maxDailyLoss) {
+      return this.reject(
+        RiskRejectionCode.MAX_DAILY_LOSS,
+        `Daily loss ${Math.abs(portfolio.dailyPnl).toFixed(4)} SOL has reached limit ${params.maxDailyLoss} SOL`
+      );
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Check a quote just before it is executed. Amounts are normalised by mint decimals and
+   * the quoted price is compared with Jupiter's price for the pair. The result carries the
+   * reference price and expected slippage so they can be recorded on the trade.
+   */
+  async validateQuote(order: Order, quote: Quote): Promise<QuoteCheckResult> {
+    const params = await this.getRiskParameters(order.userId);
+
+    // 1. The route's own estimate of how far it moves the pool
+    const priceImpact = parseFloat(quote.priceImpactPct) || 0;
+    if (priceImpact > params.maxPriceImpact) {
+      return {
+        ...this.reject(
+          RiskRejectionCode.MAX_PRICE_IMPACT,
+          `Price impact ${(priceImpact * 100).toFixed(2)}% exceeds limit ${(params.maxPriceImpact * 100).toFixed(2)}%`
+        ),
+        priceImpact
+      };
+    }
+
+    const [inputAmount, outputAmount, referencePrice] = await Promise.all([
+      this.jupiterService.toUiAmount(order.inputMint, quote.inAmount),
+      this.jupiterService.toUiAmount(order.outputMint, quote.outAmount),
+      this.jupiterService.getTokenPrice(order.inputMint, order.outputMint)
+    ]);
+    if (!referencePrice || inputAmount <= 0) {
+      return this.reject(
+        RiskRejectionCode.PRICE_UNAVAILABLE,
+        `Unable to price ${order.inputMint} in ${order.outputMint}`
+      );
+    }
+
+    const quotedPrice = outputAmount / inputAmount;
+    const expectedSlippage = (referencePrice - quotedPrice) / referencePrice;
+    const details = { quotedPrice, referencePrice, expectedSlippage, priceImpact };
+
+    // 2. Deviation from the reference in either direction; a quote far better than the
+    // oracle usually means one of the two is stale or the pool is being manipulated
+    if (Math.abs(expectedSlippage) > params.maxPriceDeviation) {
+      return {
+        ...this.reject(
+          RiskRejectionCode.MAX_PRICE_DEVIATION,
+          `Quoted price deviates ${(Math.abs(expectedSlippage) * 100).toFixed(2)}% from reference, limit is ${(params.maxPriceDeviation * 100).toFixed(2)}%`
+        ),
+        ...details
+      };
+    }
+
+    // 3. The order's own tolerance for a worse fill
+    if (expectedSlippage > order.slippageTolerance) {
+      return {
+        ...this.reject(
+          RiskRejectionCode.MAX_SLIPPAGE,
+          `Expected slippage ${(expectedSlippage * 100).toFixed(2)}% exceeds tolerance ${(order.slippageTolerance * 100).toFixed(2)}%`
+        ),
+        ...details
+      };
+    }
+
+    return { isValid: true, ...details };
+  }
+
+  /**
+   * Get effective risk parameters for a user (per-user overrides on top of platform defaults)
+   */
+  async getRiskParameters(userId: string): Promise<RiskParameters> {
+    try {
+      const result = await this.pool.query('SELECT * FROM user_risk_limits WHERE user_id = $1', [userId]);
+      const row = result.rows[0];
+      if (!row) {
+        return DEFAULT_RISK_PARAMETERS;
+      }
+
+      const numberOr = (value: any, fallback: number) =>
+        value === null || value === undefined ? fallback : parseFloat(value);
+
+      return {
+        maxPositionSize: numberOr(row.max_position_size, DEFAULT_RISK_PARAMETERS.maxPositionSize),
+        maxPortfolioRisk: numberOr(row.max_portfolio_risk, DEFAULT_RISK_PARAMETERS.maxPortfolioRisk),
+        maxDailyLoss: numberOr(row.max_daily_loss, DEFAULT_RISK_PARAMETERS.maxDailyLoss),
+        maxSlippage: numberOr(row.max_slippage, DEFAULT_RISK_PARAMETERS.maxSlippage),
+        maxPriceImpact: numberOr(row.max_price_impact, DEFAULT_RISK_PARAMETERS.maxPriceImpact),
+        maxPriceDeviation: numberOr(row.max_price_deviation, DEFAULT_RISK_PARAMETERS.maxPriceDeviation),
+        minLiquidity: numberOr(row.min_liquidity, DEFAULT_RISK_PARAMETERS.minLiquidity),
+        // User blacklists extend the platform blacklist rather than replacing it
+        blacklistedTokens: [
+          ...DEFAULT_RISK_PARAMETERS.blacklistedTokens,
+          ...(row.blacklisted_tokens || [])
+        ],
+        maxOrdersPerHour: numberOr(row.max_orders_per_hour, DEFAULT_RISK_PARAMETERS.maxOrdersPerHour)
+      };
+    } catch (error) {
+      this.logger.error(`Error loading risk parameters for ${userId}:`, error);
+      return DEFAULT_RISK_PARAMETERS;
+    }
+  }
+
+  /**
+   * Store per-user risk overrides. Fields left undefined keep their current value.
+   */
+  async setUserRiskParameters(userId: string, overrides: Partial<RiskParameters>): Promise<RiskParameters> {
+    await this.pool.query(`
+      INSERT INTO user_risk_limits (
+        user_id, max_position_size, max_portfolio_risk, max_daily_loss, max_slippage,
+        min_liquidity, blacklisted_tokens, max_orders_per_hour, max_price_impact, max_price_deviation, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+      ON CONFLICT (user_id) DO UPDATE SET
+        max_position_size = COALESCE(EXCLUDED.max_position_size, user_risk_limits.max_position_size),
+        max_portfolio_risk = COALESCE(EXCLUDED.max_portfolio_risk, user_risk_limits.max_portfolio_risk),
+        max_daily_loss = COALESCE(EXCLUDED.max_daily_loss, user_risk_limits.max_daily_loss),
+        max_slippage = COALESCE(EXCLUDED.max_slippage, user_risk_limits.max_slippage),
+        min_liquidity = COALESCE(EXCLUDED.min_liquidity, user_risk_limits.min_liquidity),
+        blacklisted_tokens = COALESCE(EXCLUDED.blacklisted_tokens, user_risk_limits.blacklisted_tokens),
+        max_orders_per_hour = COALESCE(EXCLUDED.max_orders_per_hour, user_risk_limits.max_orders_per_hour),
+        max_price_impact = COALESCE(EXCLUDED.max_price_impact, user_risk_limits.max_price_impact),
+        max_price_deviation = COALESCE(EXCLUDED.max_price_deviation, user_risk_limits.max_price_deviation),
+        updated_at = NOW()
+    `, [
+      userId,
+      overrides.maxPositionSize,
+      overrides.maxPortfolioRisk,
+      overrides.maxDailyLoss,
+      overrides.maxSlippage,
+      overrides.minLiquidity,
+      overrides.blacklistedTokens,
+      overrides.maxOrdersPerHour,
+      overrides.maxPriceImpact,
+      overrides.maxPriceDeviation
+    ]);
+
+    return this.getRiskParameters(userId);
+  }
+
+  // Private helper methods
+
+  private reject(code: RiskRejectionCode, message: string): RiskCheckResult {
+    return { isValid: false, code, reason: `${code}: ${message}` };
+  }
+
+  private async countRecentOrders(userId: string, excludeOrderId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM orders
+       WHERE user_id = $1 AND id <> $2 AND created_at > NOW() - INTERVAL '1 hour'`,
+      [userId, excludeOrderId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  private async getOrderValueInSol(order: Order): Promise<number | null> {
+    if (order.inputMint === SOL_MINT) {
+      return order.amount;
+    }
+
+    const price = await this.jupiterService.getTokenPrice(order.inputMint, SOL_MINT);
+    return price ? order.amount * price : null;
+  }
+}
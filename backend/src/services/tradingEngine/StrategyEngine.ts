@@ -0,0 +1,791 @@
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import winston from 'winston';
+import { SOL_MINT } from '../../config/trading';
+import { TradingError } from '../../middleware/errorHandler';
+import {
+  ArbitrageOpportunity,
+  ArbitrageParameters,
+  DcaParameters,
+  GridParameters,
+  Order,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  Strategy,
+  Trade
+} from '../../types/trading';
+import { parseIntervalMs } from '../../utils/intervals';
+import { JupiterService } from '../dataProviders/JupiterService';
+import { OrderExecutionService } from './OrderExecutionService';
+
+// A grid level whose order failed or expired is re-armed no sooner than this
+const GRID_RETRY_BACKOFF_MS = 5 * 60 * 1000;
+
+interface DcaFill {
+  orderId: string;
+  spent: number;
+  entryPrice: number;
+  executedAt: string;
+}
+
+interface DcaState {
+  spent: number;
+  fills: DcaFill[];
+}
+
+interface ArbitrageState {
+  roundTrips: number;
+  wins: number;
+  totalPnl: number; // In inputMint units
+}
+
+export class StrategyEngine {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private orderExecutionService: OrderExecutionService;
+  private jupiterService: JupiterService;
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    pool: Pool,
+    logger: winston.Logger,
+    orderExecutionService: OrderExecutionService,
+    jupiterService: JupiterService
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.orderExecutionService = orderExecutionService;
+    this.jupiterService = jupiterService;
+  }
+
+  /**
+   * Start the strategy scheduler
+   */
+  start(tickMs = 30 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runDueStrategies(), tickMs);
+    this.logger.info(`Strategy engine started (tick ${tickMs}ms)`);
+  }
+
+  /**
+   * Stop the strategy scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Create a new strategy for a user
+   */
+  async createStrategy(userId: string, input: any): Promise<Strategy> {
+    const parameters = this.validateParameters(input.type, input.parameters || {});
+    const isActive = input.active !== undefined ? Boolean(input.active) : true;
+
+    const result = await this.pool.query(`
+      INSERT INTO strategies (
+        id, user_id, name, description, type, is_active, input_mint, output_mint,
+        parameters, next_run_at, is_paper
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *
+    `, [
+      randomUUID(),
+      userId,
+      input.name,
+      input.description || '',
+      input.type,
+      isActive,
+      input.inputMint,
+      input.outputMint,
+      parameters,
+      this.getInitialRunAt(input.type, parameters),
+      Boolean(input.isPaper)
+    ]);
+
+    const strategy = this.mapStrategyRow(result.rows[0]);
+    this.logger.info(`Strategy created: ${strategy.id} (${strategy.type}) by user ${userId}`);
+    return strategy;
+  }
+
+  /**
+   * Get a single strategy owned by a user
+   */
+  async getStrategy(strategyId: string, userId: string): Promise<Strategy | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM strategies WHERE id = $1 AND user_id = $2',
+      [strategyId, userId]
+    );
+    return result.rows.length > 0 ? this.mapStrategyRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Get a user's strategies
+   */
+  async getUserStrategies(userId: string, activeOnly = false): Promise<Strategy[]> {
+    let query = 'SELECT * FROM strategies WHERE user_id = $1';
+    if (activeOnly) {
+      query += ' AND is_active = TRUE';
+    }
+    query += ' ORDER BY created_at DESC';
+
+    const result = await this.pool.query(query, [userId]);
+    return result.rows.map(row => this.mapStrategyRow(row));
+  }
+
+  /**
+   * Update a strategy's name, description or parameters
+   */
+  async updateStrategy(strategyId: string, userId: string, updates: any): Promise<Strategy | null> {
+    const current = await this.getStrategy(strategyId, userId);
+    if (!current) {
+      return null;
+    }
+
+    const parameters = updates.parameters
+      ? this.validateParameters(current.type, updates.parameters)
+      : current.parameters;
+
+    const result = await this.pool.query(`
+      UPDATE strategies
+      SET name = $1, description = $2, parameters = $3, updated_at = NOW()
+      WHERE id = $4 AND user_id = $5
+      RETURNING *
+    `, [
+      updates.name ?? current.name,
+      updates.description ?? current.description,
+      parameters,
+      strategyId,
+      userId
+    ]);
+
+    return this.mapStrategyRow(result.rows[0]);
+  }
+
+  /**
+   * Delete a strategy and cancel any orders it still has open
+   */
+  async deleteStrategy(strategyId: string, userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM strategies WHERE id = $1 AND user_id = $2',
+      [strategyId, userId]
+    );
+    if (result.rowCount === 0) {
+      return false;
+    }
+
+    await this.cancelStrategyOrders(strategyId, userId);
+    this.logger.info(`Strategy deleted: ${strategyId}`);
+    return true;
+  }
+
+  /**
+   * Start or stop a strategy
+   */
+  async toggleStrategy(strategyId: string, userId: string, active: boolean): Promise<Strategy | null> {
+    const result = await this.pool.query(`
+      UPDATE strategies
+      SET is_active = $1,
+          next_run_at = CASE WHEN $1 AND (next_run_at IS NULL OR next_run_at < NOW()) THEN NOW() ELSE next_run_at END,
+          activated_at = CASE WHEN $1 AND NOT is_active THEN NOW() ELSE activated_at END,
+          updated_at = NOW()
+      WHERE id = $2 AND user_id = $3
+      RETURNING *
+    `, [Boolean(active), strategyId, userId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    if (!active) {
+      await this.cancelStrategyOrders(strategyId, userId);
+    }
+
+    return this.mapStrategyRow(result.rows[0]);
+  }
+
+  /**
+   * Run every active strategy whose next run is due (called by scheduler)
+   */
+  async runDueStrategies(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM strategies WHERE is_active = TRUE AND next_run_at <= NOW() ORDER BY next_run_at ASC'
+      );
+
+      for (const row of result.rows) {
+        try {
+          await this.executeStrategy(this.mapStrategyRow(row), row.state || {});
+        } catch (error) {
+          this.logger.error(`Error executing strategy ${row.id}:`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error running strategies:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Let active ARBITRAGE strategies on the opportunity's pair trade it: buy on the cheap venue,
+   * then sell what was bought on the expensive one. Registered with ArbitrageDetector.onOpportunity.
+   */
+  async handleArbitrageOpportunity(opportunity: ArbitrageOpportunity): Promise<void> {
+    const result = await this.pool.query(
+      `SELECT * FROM strategies
+       WHERE is_active = TRUE AND type = 'ARBITRAGE' AND input_mint = $1 AND output_mint = $2`,
+      [opportunity.inputMint, opportunity.outputMint]
+    );
+
+    for (const row of result.rows) {
+      const strategy = this.mapStrategyRow(row);
+      const params = strategy.parameters as ArbitrageParameters;
+      if (opportunity.profitPercentage < params.minProfitPercentage || new Date() > opportunity.expiresAt) {
+        continue;
+      }
+
+      try {
+        await this.executeArbitrage(strategy, params, opportunity, row.state || {});
+      } catch (error) {
+        this.logger.error(`Error executing arbitrage strategy ${strategy.id}:`, error);
+      }
+    }
+  }
+
+  // Private helper methods
+
+  private async executeStrategy(strategy: Strategy, state: any): Promise<void> {
+    switch (strategy.type) {
+      case 'DCA':
+        await this.executeDca(strategy, state);
+        break;
+      case 'GRID':
+        await this.executeGrid(strategy);
+        break;
+      case 'ARBITRAGE':
+        // Driven by detected opportunities rather than the schedule
+        await this.pool.query('UPDATE strategies SET next_run_at = NULL WHERE id = $1', [strategy.id]);
+        break;
+      default:
+        this.logger.warn(`Strategy type ${strategy.type} is not supported yet, deactivating ${strategy.id}`);
+        await this.deactivateStrategy(strategy.id);
+    }
+  }
+
+  /**
+   * Buy a fixed amount of outputMint, then schedule the next run
+   */
+  private async executeDca(strategy: Strategy, rawState: any): Promise<void> {
+    const params = strategy.parameters as DcaParameters;
+    const state: DcaState = { spent: rawState.spent || 0, fills: rawState.fills || [] };
+    const now = new Date();
+
+    const budgetLeft = params.totalBudget !== undefined ? params.totalBudget - state.spent : Infinity;
+    if ((params.endDate && now >= new Date(params.endDate)) || budgetLeft <= 0) {
+      this.logger.info(`DCA strategy ${strategy.id} finished`);
+      await this.deactivateStrategy(strategy.id);
+      return;
+    }
+
+    // A failed run still moves the schedule on, so one bad run is not retried every tick
+    let trade: Trade | null = null;
+    try {
+      const order: Order = {
+        id: this.generateOrderId(),
+        userId: strategy.userId,
+        userWallet: await this.getUserWallet(strategy.userId),
+        type: OrderType.MARKET,
+        side: OrderSide.BUY,
+        status: OrderStatus.PENDING,
+        inputMint: strategy.inputMint,
+        outputMint: strategy.outputMint,
+        amount: Math.min(params.amountPerOrder, budgetLeft),
+        slippageTolerance: params.slippageTolerance ?? 0.01,
+        timeInForce: 'IOC',
+        createdAt: now,
+        updatedAt: now,
+        strategyId: strategy.id,
+        isAutomated: true,
+        isPaper: strategy.isPaper
+      };
+
+      await this.orderExecutionService.saveOrder(order);
+      trade = await this.orderExecutionService.executeMarketOrder(order);
+    } catch (error) {
+      this.logger.error(`DCA strategy ${strategy.id} could not place its order:`, error);
+    }
+
+    if (trade && trade.outputAmount > 0) {
+      // What the fill actually cost per token, in inputMint
+      state.spent += trade.inputAmount;
+      state.fills.push({
+        orderId: trade.orderId,
+        spent: trade.inputAmount,
+        entryPrice: trade.inputAmount / trade.outputAmount,
+        executedAt: now.toISOString()
+      });
+    }
+
+    const performance = await this.calculateDcaPerformance(strategy, state);
+    const nextRunAt = new Date(now.getTime() + this.parseInterval(params.interval));
+
+    await this.pool.query(`
+      UPDATE strategies
+      SET state = $1, total_trades = $2, win_rate = $3, total_pnl = $4,
+          last_executed_at = $5, next_run_at = $6, updated_at = NOW()
+      WHERE id = $7
+    `, [state, state.fills.length, performance.winRate, performance.totalPnl, now, nextRunAt, strategy.id]);
+  }
+
+  /**
+   * Reconcile the grid against the orders table. All grid state lives in orders and
+   * grid_cycles, so this also rebuilds the ladder after a restart.
+   */
+  private async executeGrid(strategy: Strategy): Promise<void> {
+    const params = strategy.parameters as GridParameters;
+    const prices = this.getGridPrices(params);
+    const now = new Date();
+
+    const currentPrice = await this.jupiterService.getTokenPrice(strategy.outputMint, strategy.inputMint);
+    const orders = (await this.orderExecutionService.getStrategyOrders(strategy.id))
+      .filter(order => order.gridLevel !== undefined);
+
+    const ordersBySlot = new Map<number, Order[]>();
+    for (const order of orders) {
+      const slotOrders = ordersBySlot.get(order.gridLevel) || [];
+      slotOrders.push(order);
+      ordersBySlot.set(order.gridLevel, slotOrders);
+    }
+
+    for (let slot = 0; slot < prices.length - 1; slot++) {
+      const buyPrice = prices[slot];
+      const sellPrice = prices[slot + 1];
+      const slotOrders = ordersBySlot.get(slot) || [];
+      const latest = slotOrders[slotOrders.length - 1];
+
+      // Arm a buy only while price sits above the level, otherwise the limit would fill instantly
+      const canArmBuy = currentPrice !== null && currentPrice > buyPrice;
+
+      if (!latest) {
+        if (canArmBuy) {
+          await this.placeGridOrder(strategy, params, slot, OrderSide.BUY, buyPrice, params.amountPerLevel);
+        }
+        continue;
+      }
+
+      switch (latest.status) {
+        case OrderStatus.PENDING:
+        case OrderStatus.WAITING:
+        case OrderStatus.EXECUTING:
+        case OrderStatus.PARTIALLY_FILLED:
+          break;
+
+        case OrderStatus.FILLED:
+          if (latest.side === OrderSide.BUY) {
+            // Sell exactly what the buy received
+            const received = await this.getReceivedAmount(latest.id);
+            if (received > 0) {
+              await this.placeGridOrder(strategy, params, slot, OrderSide.SELL, sellPrice, received);
+            } else {
+              this.logger.warn(`Grid strategy ${strategy.id}: no trade recorded for filled buy ${latest.id}`);
+            }
+          } else {
+            await this.recordGridCycle(strategy, slot, slotOrders, latest, buyPrice, sellPrice);
+            if (canArmBuy) {
+              await this.placeGridOrder(strategy, params, slot, OrderSide.BUY, buyPrice, params.amountPerLevel);
+            }
+          }
+          break;
+
+        default: {
+          // Cancelled, rejected, failed or expired. A user cancel or a risk rejection would only
+          // recur (quote rejections are retried in place), so it stops the grid, unless it predates the user last switching the grid on.
+          // Failed and expired orders are re-armed on the same side after a back-off.
+          const endedAt = new Date(latest.updatedAt).getTime();
+          if (latest.status === OrderStatus.CANCELLED || latest.status === OrderStatus.REJECTED) {
+            if (endedAt >= new Date(strategy.activatedAt || strategy.createdAt).getTime()) {
+              this.logger.warn(`Grid strategy ${strategy.id} stopped: ${latest.side} order ${latest.id} was ${latest.status}`);
+              await this.deactivateStrategy(strategy.id);
+              await this.cancelStrategyOrders(strategy.id, strategy.userId);
+              return;
+            }
+          } else if (now.getTime() - endedAt < GRID_RETRY_BACKOFF_MS) {
+            break;
+          }
+
+          if (latest.side === OrderSide.SELL) {
+            await this.placeGridOrder(strategy, params, slot, OrderSide.SELL, sellPrice, latest.amount);
+          } else if (canArmBuy) {
+            await this.placeGridOrder(strategy, params, slot, OrderSide.BUY, buyPrice, params.amountPerLevel);
+          }
+        }
+      }
+    }
+
+    const stats = await this.pool.query(`
+      SELECT
+        (SELECT COUNT(*) FROM orders WHERE strategy_id = $1 AND status = $2) AS total_trades,
+        COUNT(*) AS cycles,
+        SUM(CASE WHEN profit > 0 THEN 1 ELSE 0 END) AS winning_cycles,
+        COALESCE(SUM(profit), 0) AS total_pnl
+      FROM grid_cycles WHERE strategy_id = $1
+    `, [strategy.id, OrderStatus.FILLED]);
+
+    const { total_trades, cycles, winning_cycles, total_pnl } = stats.rows[0];
+    const winRate = parseInt(cycles) > 0 ? (parseInt(winning_cycles) / parseInt(cycles)) * 100 : 0;
+    const nextRunAt = new Date(now.getTime() + this.parseInterval(params.checkInterval || '1m'));
+
+    await this.pool.query(`
+      UPDATE strategies
+      SET total_trades = $1, win_rate = $2, total_pnl = $3,
+          last_executed_at = $4, next_run_at = $5, updated_at = NOW()
+      WHERE id = $6
+    `, [parseInt(total_trades), winRate, parseFloat(total_pnl), now, nextRunAt, strategy.id]);
+  }
+
+  /**
+   * Record the profit of a completed buy/sell cycle from what its trades actually spent and
+   * received, net of both legs' network fees. Idempotent per sell order, so re-running after
+   * a restart does not double count.
+   */
+  private async recordGridCycle(
+    strategy: Strategy,
+    slot: number,
+    slotOrders: Order[],
+    sellOrder: Order,
+    buyPrice: number,
+    sellPrice: number
+  ): Promise<void> {
+    const buyOrder = [...slotOrders]
+      .reverse()
+      .find(order => order.side === OrderSide.BUY && order.status === OrderStatus.FILLED);
+    if (!buyOrder) return;
+
+    const fills = await this.pool.query(`
+      SELECT COALESCE(SUM(input_amount) FILTER (WHERE order_id = $1), 0) AS spent,
+             COALESCE(SUM(output_amount) FILTER (WHERE order_id = $2), 0) AS received,
+             COALESCE(SUM(fees), 0) AS fees
+      FROM trades WHERE order_id IN ($1, $2)
+    `, [buyOrder.id, sellOrder.id]);
+    const row = fills.rows[0];
+
+    // Fees are paid in SOL; the grid is accounted in its input mint
+    let fees = parseFloat(row.fees);
+    if (fees > 0 && strategy.inputMint !== SOL_MINT) {
+      const solPrice = await this.jupiterService.getTokenPrice(SOL_MINT, strategy.inputMint);
+      if (solPrice === null) {
+        this.logger.warn(`Grid strategy ${strategy.id}: unable to price fees for the cycle on level ${slot}; recorded without them`);
+      }
+      fees = solPrice !== null ? fees * solPrice : 0;
+    }
+
+    const cost = parseFloat(row.spent) + fees;
+    const proceeds = parseFloat(row.received);
+
+    await this.pool.query(`
+      INSERT INTO grid_cycles (
+        strategy_id, grid_level, buy_order_id, sell_order_id, buy_price, sell_price,
+        cost, proceeds, profit
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (sell_order_id) DO NOTHING
+    `, [strategy.id, slot, buyOrder.id, sellOrder.id, buyPrice, sellPrice, cost, proceeds, proceeds - cost]);
+  }
+
+  private async placeGridOrder(
+    strategy: Strategy,
+    params: GridParameters,
+    slot: number,
+    side: OrderSide,
+    price: number,
+    amount: number
+  ): Promise<void> {
+    const now = new Date();
+    const order: Order = {
+      id: this.generateOrderId(),
+      userId: strategy.userId,
+      userWallet: await this.getUserWallet(strategy.userId),
+      type: OrderType.LIMIT,
+      side,
+      status: OrderStatus.PENDING,
+      // Sells swap the accumulated token back into the strategy's input mint
+      inputMint: side === OrderSide.BUY ? strategy.inputMint : strategy.outputMint,
+      outputMint: side === OrderSide.BUY ? strategy.outputMint : strategy.inputMint,
+      amount,
+      limitPrice: price,
+      slippageTolerance: params.slippageTolerance ?? 0.01,
+      timeInForce: 'GTC',
+      createdAt: now,
+      updatedAt: now,
+      strategyId: strategy.id,
+      isAutomated: true,
+      isPaper: strategy.isPaper,
+      gridLevel: slot
+    };
+
+    await this.orderExecutionService.saveOrder(order);
+    this.logger.info(`Grid ${strategy.id} armed ${side} at ${price} on level ${slot}`);
+  }
+
+  private getGridPrices(params: GridParameters): number[] {
+    const step = (params.upperPrice - params.lowerPrice) / (params.levels - 1);
+    return Array.from({ length: params.levels }, (_, i) => params.lowerPrice + step * i);
+  }
+
+  /**
+   * Run both legs of an arbitrage round trip as immediate market orders pinned to one venue each
+   */
+  private async executeArbitrage(
+    strategy: Strategy,
+    params: ArbitrageParameters,
+    opportunity: ArbitrageOpportunity,
+    rawState: any
+  ): Promise<void> {
+    const state: ArbitrageState = {
+      roundTrips: rawState.roundTrips || 0,
+      wins: rawState.wins || 0,
+      totalPnl: rawState.totalPnl || 0
+    };
+    const userWallet = await this.getUserWallet(strategy.userId);
+    const amount = Math.min(params.maxAmount, opportunity.maxAmount);
+
+    const buyTrade = await this.placeArbitrageLeg(
+      strategy, params, userWallet, OrderSide.BUY, strategy.inputMint, strategy.outputMint, amount, opportunity.buyDex
+    );
+    if (!buyTrade) return;
+
+    const sellTrade = await this.placeArbitrageLeg(
+      strategy, params, userWallet, OrderSide.SELL, strategy.outputMint, strategy.inputMint,
+      buyTrade.outputAmount, opportunity.sellDex
+    );
+    if (!sellTrade) {
+      this.logger.warn(`Arbitrage strategy ${strategy.id} sell leg failed; holding ${buyTrade.outputAmount} ${strategy.outputMint}`);
+    }
+
+    const pnl = sellTrade ? sellTrade.outputAmount - buyTrade.inputAmount : 0;
+    state.roundTrips += 1;
+    state.wins += pnl > 0 ? 1 : 0;
+    state.totalPnl += pnl;
+
+    await this.pool.query(`
+      UPDATE strategies
+      SET state = $1, total_trades = $2, win_rate = $3, total_pnl = $4, last_executed_at = NOW(), updated_at = NOW()
+      WHERE id = $5
+    `, [state, state.roundTrips, (state.wins / state.roundTrips) * 100, state.totalPnl, strategy.id]);
+  }
+
+  private async placeArbitrageLeg(
+    strategy: Strategy,
+    params: ArbitrageParameters,
+    userWallet: string,
+    side: OrderSide,
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    dex: string
+  ): Promise<Trade | null> {
+    const now = new Date();
+    const order: Order = {
+      id: this.generateOrderId(),
+      userId: strategy.userId,
+      userWallet,
+      type: OrderType.MARKET,
+      side,
+      status: OrderStatus.PENDING,
+      inputMint,
+      outputMint,
+      amount,
+      slippageTolerance: params.slippageTolerance ?? 0.005,
+      timeInForce: 'IOC',
+      createdAt: now,
+      updatedAt: now,
+      strategyId: strategy.id,
+      isAutomated: true,
+      isPaper: strategy.isPaper,
+      dexes: [dex]
+    };
+
+    await this.orderExecutionService.saveOrder(order);
+    return this.orderExecutionService.executeMarketOrder(order);
+  }
+
+  /**
+   * Mark DCA fills to market: a fill wins if the token now trades above its entry price
+   */
+  private async calculateDcaPerformance(
+    strategy: Strategy,
+    state: DcaState
+  ): Promise<{ winRate: number; totalPnl: number }> {
+    const pricedFills = state.fills.filter(fill => fill.entryPrice > 0);
+    if (pricedFills.length === 0) {
+      return { winRate: strategy.winRate, totalPnl: strategy.totalPnl };
+    }
+
+    const currentPrice = await this.jupiterService.getTokenPrice(strategy.outputMint, strategy.inputMint);
+    if (!currentPrice) {
+      return { winRate: strategy.winRate, totalPnl: strategy.totalPnl };
+    }
+
+    let wins = 0;
+    let totalPnl = 0;
+    for (const fill of pricedFills) {
+      const acquired = fill.spent / fill.entryPrice;
+      totalPnl += acquired * currentPrice - fill.spent;
+      if (currentPrice > fill.entryPrice) wins++;
+    }
+
+    return { winRate: (wins / pricedFills.length) * 100, totalPnl };
+  }
+
+  private validateParameters(type: Strategy['type'], parameters: any): Record<string, any> {
+    switch (type) {
+      case 'DCA': {
+        const amountPerOrder = parseFloat(parameters.amountPerOrder);
+        if (!(amountPerOrder > 0)) {
+          throw new TradingError('DCA amountPerOrder must be a positive number', 'INVALID_STRATEGY_PARAMETERS');
+        }
+        this.parseInterval(parameters.interval);
+
+        const dca: DcaParameters = {
+          amountPerOrder,
+          interval: parameters.interval,
+          totalBudget: parameters.totalBudget !== undefined ? parseFloat(parameters.totalBudget) : undefined,
+          startDate: parameters.startDate,
+          endDate: parameters.endDate,
+          slippageTolerance: parameters.slippageTolerance !== undefined ? parseFloat(parameters.slippageTolerance) : undefined
+        };
+
+        if (dca.totalBudget !== undefined && !(dca.totalBudget > 0)) {
+          throw new TradingError('DCA totalBudget must be a positive number', 'INVALID_STRATEGY_PARAMETERS');
+        }
+        for (const date of [dca.startDate, dca.endDate]) {
+          if (date && isNaN(new Date(date).getTime())) {
+            throw new TradingError(`Invalid DCA date: ${date}`, 'INVALID_STRATEGY_PARAMETERS');
+          }
+        }
+        return dca;
+      }
+      case 'GRID': {
+        const grid: GridParameters = {
+          lowerPrice: parseFloat(parameters.lowerPrice),
+          upperPrice: parseFloat(parameters.upperPrice),
+          levels: parseInt(parameters.levels),
+          amountPerLevel: parseFloat(parameters.amountPerLevel),
+          checkInterval: parameters.checkInterval || '1m',
+          slippageTolerance: parameters.slippageTolerance !== undefined ? parseFloat(parameters.slippageTolerance) : undefined
+        };
+
+        if (!(grid.lowerPrice > 0) || !(grid.upperPrice > grid.lowerPrice)) {
+          throw new TradingError('GRID requires 0 < lowerPrice < upperPrice', 'INVALID_STRATEGY_PARAMETERS');
+        }
+        if (!(grid.levels >= 2 && grid.levels <= 100)) {
+          throw new TradingError('GRID levels must be between 2 and 100', 'INVALID_STRATEGY_PARAMETERS');
+        }
+        if (!(grid.amountPerLevel > 0)) {
+          throw new TradingError('GRID amountPerLevel must be a positive number', 'INVALID_STRATEGY_PARAMETERS');
+        }
+        this.parseInterval(grid.checkInterval);
+        return grid;
+      }
+      case 'ARBITRAGE': {
+        const arbitrage: ArbitrageParameters = {
+          minProfitPercentage: parseFloat(parameters.minProfitPercentage ?? 0.2),
+          maxAmount: parseFloat(parameters.maxAmount),
+          slippageTolerance: parameters.slippageTolerance !== undefined ? parseFloat(parameters.slippageTolerance) : undefined
+        };
+
+        if (!(arbitrage.minProfitPercentage >= 0)) {
+          throw new TradingError('ARBITRAGE minProfitPercentage must not be negative', 'INVALID_STRATEGY_PARAMETERS');
+        }
+        if (!(arbitrage.maxAmount > 0)) {
+          throw new TradingError('ARBITRAGE maxAmount must be a positive number', 'INVALID_STRATEGY_PARAMETERS');
+        }
+        return arbitrage;
+      }
+      default:
+        return parameters;
+    }
+  }
+
+  private getInitialRunAt(type: Strategy['type'], parameters: Record<string, any>): Date {
+    if (type === 'DCA' && parameters.startDate) {
+      return new Date(parameters.startDate);
+    }
+    return new Date();
+  }
+
+  private parseInterval(interval: string): number {
+    const ms = parseIntervalMs(interval);
+    if (ms === null) {
+      throw new TradingError(`Invalid interval: ${interval}`, 'INVALID_STRATEGY_PARAMETERS');
+    }
+    return ms;
+  }
+
+  private async deactivateStrategy(strategyId: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE strategies SET is_active = FALSE, next_run_at = NULL, updated_at = NOW() WHERE id = $1',
+      [strategyId]
+    );
+  }
+
+  private async cancelStrategyOrders(strategyId: string, userId: string): Promise<void> {
+    const result = await this.pool.query(
+      'SELECT id FROM orders WHERE strategy_id = $1 AND status = $2',
+      [strategyId, OrderStatus.PENDING]
+    );
+    for (const row of result.rows) {
+      await this.orderExecutionService.cancelOrder(row.id, userId);
+    }
+  }
+
+  /**
+   * Total amount an order's trades received
+   */
+  private async getReceivedAmount(orderId: string): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT COALESCE(SUM(output_amount), 0) AS amount FROM trades WHERE order_id = $1',
+      [orderId]
+    );
+    return parseFloat(result.rows[0].amount);
+  }
+
+  private async getUserWallet(userId: string): Promise<string> {
+    const result = await this.pool.query('SELECT wallet FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0) {
+      throw new TradingError(`User ${userId} not found`, 'USER_NOT_FOUND');
+    }
+    return result.rows[0].wallet;
+  }
+
+  private mapStrategyRow(row: any): Strategy {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description,
+      type: row.type,
+      isActive: row.is_active,
+      inputMint: row.input_mint,
+      outputMint: row.output_mint,
+      parameters: row.parameters || {},
+      totalTrades: parseInt(row.total_trades) || 0,
+      winRate: parseFloat(row.win_rate) || 0,
+      totalPnl: parseFloat(row.total_pnl) || 0,
+      createdAt: row.created_at,
+      lastExecutedAt: row.last_executed_at || undefined,
+      activatedAt: row.activated_at || undefined,
+      isPaper: row.is_paper ?? undefined
+    };
+  }
+
+  private generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
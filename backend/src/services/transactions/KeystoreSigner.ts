@@ -0,0 +1,71 @@
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { Pool } from 'pg';
+import winston from 'winston';
+import { TradingError } from '../../middleware/errorHandler';
+import { decryptPrivateKey, encryptPrivateKey } from '../../utils/keyEncryption';
+import { SwapSigner } from '../dataProviders/JupiterService';
+
+/**
+ * Signs swaps with trading keys users have deposited. Keys are stored in wallet_keys,
+ * encrypted the same way as WalletService keys, and only decrypted for the moment of signing.
+ */
+export class KeystoreSigner implements SwapSigner {
+  private pool: Pool;
+  private logger: winston.Logger;
+  private secret: string;
+
+  constructor(pool: Pool, logger: winston.Logger, secret: string) {
+    this.pool = pool;
+    this.logger = logger;
+    this.secret = secret;
+  }
+
+  async signTransaction(wallet: string, transaction: VersionedTransaction): Promise<VersionedTransaction> {
+    const result = await this.pool.query('SELECT encrypted_key FROM wallet_keys WHERE wallet = $1', [wallet]);
+    if (result.rows.length === 0) {
+      throw new TradingError(`No trading key stored for wallet ${wallet}`, 'NO_TRADING_KEY');
+    }
+
+    const keypair = Keypair.fromSecretKey(bs58.decode(decryptPrivateKey(result.rows[0].encrypted_key, this.secret)));
+    transaction.sign([keypair]);
+    return transaction;
+  }
+
+  /**
+   * Store (or replace) the trading key for a user's wallet. The key must belong to the wallet
+   * on the user's account.
+   */
+  async storeKey(userId: string, wallet: string, privateKey: string): Promise<void> {
+    let keypair: Keypair;
+    try {
+      keypair = Keypair.fromSecretKey(bs58.decode(privateKey));
+    } catch (error) {
+      throw new TradingError('Invalid private key format', 'INVALID_TRADING_KEY');
+    }
+    if (keypair.publicKey.toBase58() !== wallet) {
+      throw new TradingError('Private key does not belong to the account wallet', 'INVALID_TRADING_KEY');
+    }
+
+    await this.pool.query(`
+      INSERT INTO wallet_keys (user_id, wallet, encrypted_key) VALUES ($1, $2, $3)
+      ON CONFLICT (user_id) DO UPDATE SET
+        wallet = EXCLUDED.wallet, encrypted_key = EXCLUDED.encrypted_key, updated_at = NOW()
+    `, [userId, wallet, encryptPrivateKey(privateKey, this.secret)]);
+
+    this.logger.info(`Trading key stored for user ${userId}`);
+  }
+
+  /**
+   * Remove a user's trading key; live orders for the wallet fail to sign afterwards
+   */
+  async deleteKey(userId: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM wallet_keys WHERE user_id = $1', [userId]);
+    return result.rowCount > 0;
+  }
+
+  async hasKey(wallet: string): Promise<boolean> {
+    const result = await this.pool.query('SELECT 1 FROM wallet_keys WHERE wallet = $1', [wallet]);
+    return result.rows.length > 0;
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import winston from 'winston';
+import { DEFAULT_PRIORITY_LEVEL, MAX_PRIORITY_FEE_LAMPORTS } from '../../config/trading';
+import { PriorityLevel } from '../../types/trading';
+
+export interface PriorityFeeEstimatorOptions {
+  percentiles: Record<PriorityLevel, number>; // Percentile of recent fees bid at each level
+  minMicroLamports: number; // Floor so a quiet network still gets some priority
+  maxFeeLamports: number; // Cap on the total priority fee of one transaction
+  computeUnitMargin: number; // Headroom added on top of simulated compute units
+  fallbackComputeUnits: number; // Used when simulation fails
+  cacheMs: number; // Recent fees are reused this long for the same accounts
+}
+
+const DEFAULT_OPTIONS: PriorityFeeEstimatorOptions = {
+  percentiles: { low: 25, medium: 50, high: 75, turbo: 95 },
+  minMicroLamports: 1000,
+  maxFeeLamports: MAX_PRIORITY_FEE_LAMPORTS,
+  computeUnitMargin: 0.1,
+  fallbackComputeUnits: 200000,
+  cacheMs: 10 * 1000
+};
+
+// Most compute units a transaction may request
+const MAX_COMPUTE_UNITS = 1400000;
+const MICRO_LAMPORTS_PER_LAMPORT = 1000000;
+
+export interface FeeOptions {
+  priorityLevel?: PriorityLevel;
+  maxFeeLamports?: number; // Tighter cap than the estimator's own for this transaction
+}
+
+export interface ComputeBudget {
+  instructions: TransactionInstruction[]; // Prepend these to the transaction
+  computeUnits: number;
+  microLamports: number; // Price per compute unit
+  priorityFeeLamports: number; // computeUnits * microLamports, what the bid can cost at most
+}
+
+/**
+ * Prices transactions from the fees recently paid to write the same accounts, since
+ * congestion on Solana is local to the accounts a transaction locks. Each transaction is
+ * simulated to size its compute unit limit, so the priority fee is not paid on unused units.
+ */
+export class PriorityFeeEstimator {
+  private connection: Connection;
+  private logger: winston.Logger;
+  private options: PriorityFeeEstimatorOptions;
+  private feeCache = new Map<string, { fees: number[]; expiresAt: number }>();
+
+  constructor(connection: Connection, logger: winston.Logger, options: Partial<PriorityFeeEstimatorOptions> = {}) {
+    this.connection = connection;
+    this.logger = logger;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Compute budget instructions for a transaction made of `instructions` and paid by `payer`
+   */
+  async getComputeBudget(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    feeOptions: FeeOptions = {}
+  ): Promise<ComputeBudget> {
+    const writableAccounts = instructions.flatMap(ix =>
+      ix.keys.filter(key => key.isWritable).map(key => key.pubkey)
+    );
+
+    const [computeUnits, price] = await Promise.all([
+      this.estimateComputeUnits(instructions, payer),
+      this.getPriorityFee([payer, ...writableAccounts], feeOptions.priorityLevel)
+    ]);
+    const microLamports = this.capPrice(price, computeUnits, feeOptions.maxFeeLamports);
+
+    return {
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports })
+      ],
+      computeUnits,
+      microLamports,
+      priorityFeeLamports: this.toLamports(microLamports, computeUnits)
+    };
+  }
+
+  /**
+   * Price per compute unit, in micro-lamports, at the given level for transactions that
+   * write these accounts. Not capped; see capPrice.
+   */
+  async getPriorityFee(accounts: PublicKey[], level: PriorityLevel = DEFAULT_PRIORITY_LEVEL): Promise<number> {
+    const fees = await this.getRecentFees(accounts);
+    const percentile = this.options.percentiles[level] ?? this.options.percentiles.medium;
+    return Math.max(this.percentile(fees, percentile), this.options.minMicroLamports);
+  }
+
+  /**
+   * Highest price per compute unit that keeps the total priority fee within the cap
+   */
+  capPrice(microLamports: number, computeUnits: number, maxFeeLamports?: number): number {
+    const cap = this.getFeeCap(maxFeeLamports);
+    const maxPrice = Math.floor((cap * MICRO_LAMPORTS_PER_LAMPORT) / Math.max(computeUnits, 1));
+    return Math.max(0, Math.min(Math.ceil(microLamports), maxPrice));
+  }
+
+  /**
+   * Most lamports one transaction may pay in priority fees. A per-transaction cap can only
+   * tighten the estimator's own.
+   */
+  getFeeCap(maxFeeLamports?: number): number {
+    return Math.min(maxFeeLamports ?? this.options.maxFeeLamports, this.options.maxFeeLamports);
+  }
+
+  /**
+   * Compute units the instructions use in simulation plus a margin, or a fallback if the
+   * simulation fails. A failing simulation is only logged; sending reports the real error.
+   */
+  async estimateComputeUnits(instructions: TransactionInstruction[], payer: PublicKey): Promise<number> {
+    try {
+      // The blockhash is replaced by the RPC node, and signatures are not checked
+      const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions]
+      }).compileToV0Message();
+
+      const simulation = await this.connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true
+      });
+
+      const unitsConsumed = simulation.value.unitsConsumed;
+      if (simulation.value.err || !unitsConsumed) {
+        this.logger.warn(`Compute unit simulation failed: ${JSON.stringify(simulation.value.err)}`);
+        return this.options.fallbackComputeUnits;
+      }
+
+      return Math.min(Math.ceil(unitsConsumed * (1 + this.options.computeUnitMargin)), MAX_COMPUTE_UNITS);
+    } catch (error) {
+      this.logger.warn(`Compute unit simulation failed: ${error.message}`);
+      return this.options.fallbackComputeUnits;
+    }
+  }
+
+  /**
+   * Convert a price per compute unit into the lamports paid for a compute unit limit
+   */
+  toLamports(microLamports: number, computeUnits: number): number {
+    return Math.ceil((microLamports * computeUnits) / MICRO_LAMPORTS_PER_LAMPORT);
+  }
+
+  // Private helper methods
+
+  /**
+   * Non-zero prioritization fees paid in recent slots by transactions locking any of the accounts
+   */
+  private async getRecentFees(accounts: PublicKey[]): Promise<number[]> {
+    // The RPC accepts at most 128 accounts
+    const unique = [...new Set(accounts.map(account => account.toBase58()))].slice(0, 128);
+    const key = [...unique].sort().join(',');
+
+    const cached = this.feeCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.fees;
+    }
+
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: unique.map(account => new PublicKey(account))
+      });
+      const fees = recent
+        .map(entry => entry.prioritizationFee)
+        .filter(fee => fee > 0)
+        .sort((a, b) => a - b);
+
+      const now = Date.now();
+      for (const [cachedKey, entry] of this.feeCache) {
+        if (entry.expiresAt <= now) this.feeCache.delete(cachedKey);
+      }
+      this.feeCache.set(key, { fees, expiresAt: now + this.options.cacheMs });
+      return fees;
+    } catch (error) {
+      this.logger.warn(`Unable to load recent prioritization fees: ${error.message}`);
+      return [];
+    }
+  }
+
+  private percentile(sorted: number[], percentile: number): number {
+    if (sorted.length === 0) return 0;
+    const index = Math.min(sorted.length - 1, Math.floor((percentile / 100) * sorted.length));
+    return sorted[index];
+  }
+}
@@ -0,0 +1,361 @@
+import {
+  Connection,
+  Finality,
+  SendTransactionError,
+  SignatureStatus,
+  Transaction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { Pool } from 'pg';
+import winston from 'winston';
+
+export type TransactionStatus = 'pending' | 'processed' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
+export interface SignedTransaction {
+  transaction: Transaction | VersionedTransaction;
+  lastValidBlockHeight: number; // Of the blockhash the transaction was signed with
+}
+
+/**
+ * Builds and signs a transaction against a fresh blockhash. Called again to re-sign once the
+ * previous attempt's blockhash has expired without it landing.
+ */
+export type TransactionBuilder = () => Promise<SignedTransaction>;
+
+export interface SendContext {
+  kind: string; // What the transaction does, e.g. 'swap' or 'transfer'
+  reference?: string; // Caller's id for it, e.g. an order id
+  wallet?: string;
+  resign?: boolean; // Rebuild after blockhash expiry (default true)
+  commitment?: Finality; // Level send() waits for; tracking continues to finalized regardless
+}
+
+export interface SendResult {
+  success: boolean;
+  signature?: string;
+  status: TransactionStatus;
+  slot?: number;
+  error?: string;
+}
+
+export type TransactionStatusListener = (
+  signature: string,
+  status: TransactionStatus,
+  context: { kind: string; reference?: string; wallet?: string }
+) => Promise<void> | void;
+
+export interface TransactionSenderOptions {
+  rebroadcastMs: number; // Resend interval while a transaction is not yet in a block
+  maxResigns: number; // Fresh-blockhash rebuilds allowed per send
+  trackMs: number; // How often persisted transactions are re-checked
+  trackBatchSize: number; // The RPC checks at most 256 signatures per call
+}
+
+const DEFAULT_OPTIONS: TransactionSenderOptions = {
+  rebroadcastMs: 2 * 1000,
+  maxResigns: 2,
+  trackMs: 15 * 1000,
+  trackBatchSize: 256
+};
+
+const COMMITMENT_RANK: Record<string, number> = { processed: 1, confirmed: 2, finalized: 3 };
+
+/**
+ * Sends transactions until they land. The signed bytes are rebroadcast on an interval until
+ * the transaction is in a block or its blockhash expires. An expired transaction is rebuilt
+ * and re-signed with a fresh blockhash, but only once finalized block height has passed its
+ * last valid height and the RPC has no record of it, so the old one can no longer land
+ * alongside the new one. Every signature is stored in pending_transactions with its raw
+ * bytes, so after a restart start() picks tracking up again, including rebroadcasts.
+ */
+export class TransactionSender {
+  private connection: Connection;
+  private pool: Pool;
+  private logger: winston.Logger;
+  private options: TransactionSenderOptions;
+  private listeners: TransactionStatusListener[] = [];
+  private inFlight = new Set<string>(); // Signatures a send() call is watching itself
+  private timer?: NodeJS.Timeout;
+  private isTracking = false;
+
+  constructor(
+    connection: Connection,
+    pool: Pool,
+    logger: winston.Logger,
+    options: Partial<TransactionSenderOptions> = {}
+  ) {
+    this.connection = connection;
+    this.pool = pool;
+    this.logger = logger;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start tracking persisted transactions, including any left over from a previous run
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.trackPending(), this.options.trackMs);
+    this.trackPending();
+    this.logger.info(`Transaction sender started (track ${this.options.trackMs}ms)`);
+  }
+
+  /**
+   * Stop tracking
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Register a callback for every status change, e.g. to reconcile transactions that settle
+   * after a restart
+   */
+  onStatusChange(listener: TransactionStatusListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Build, send and rebroadcast a transaction until it reaches the requested commitment,
+   * fails on-chain or expires with no re-sign left
+   */
+  async send(build: TransactionBuilder, context: SendContext): Promise<SendResult> {
+    const commitment = context.commitment || 'confirmed';
+    let replaces: string | undefined;
+
+    for (let resigns = 0; ; resigns++) {
+      const signed = await build();
+      const signature = this.getSignature(signed.transaction);
+      const raw = Buffer.from(signed.transaction.serialize());
+
+      this.inFlight.add(signature);
+      try {
+        await this.persist(signature, raw, signed.lastValidBlockHeight, context, replaces);
+
+        const result = await this.broadcast(signature, raw, signed.lastValidBlockHeight, commitment, context);
+        const canResign = context.resign !== false && resigns < this.options.maxResigns;
+        if (result.status !== 'expired' || !canResign) {
+          return result;
+        }
+
+        this.logger.warn(
+          `Transaction ${signature} expired without landing, re-signing (${resigns + 1}/${this.options.maxResigns})`
+        );
+        replaces = signature;
+      } finally {
+        this.inFlight.delete(signature);
+      }
+    }
+  }
+
+  /**
+   * Check every open persisted transaction once: record status changes, mark expired ones
+   * and rebroadcast those still waiting for a block
+   */
+  async trackPending(): Promise<void> {
+    if (this.isTracking) return;
+    this.isTracking = true;
+
+    try {
+      const result = await this.pool.query(`
+        SELECT * FROM pending_transactions
+        WHERE status IN ('pending', 'processed', 'confirmed')
+        ORDER BY created_at ASC
+        LIMIT $1
+      `, [this.options.trackBatchSize]);
+
+      const rows = result.rows.filter((row: any) => !this.inFlight.has(row.signature));
+      if (rows.length === 0) return;
+
+      const [statuses, blockHeight] = await Promise.all([
+        this.connection.getSignatureStatuses(rows.map((row: any) => row.signature), { searchTransactionHistory: true }),
+        this.connection.getBlockHeight('finalized')
+      ]);
+
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        const context = { kind: row.kind, reference: row.reference || undefined, wallet: row.wallet || undefined };
+        const status = statuses.value[i];
+
+        if (status?.err) {
+          await this.updateStatus(row.signature, 'failed', context, status.slot, this.describeError(status.err));
+        } else if (status?.confirmationStatus) {
+          if (status.confirmationStatus !== row.status) {
+            await this.updateStatus(row.signature, status.confirmationStatus, context, status.slot);
+          }
+        } else if (blockHeight > parseInt(row.last_valid_block_height)) {
+          await this.updateStatus(row.signature, 'expired', context);
+        } else {
+          // Left over from before a restart and still valid, so keep it on the wire
+          await this.rebroadcast(row.signature, Buffer.from(row.raw_transaction, 'base64'));
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error tracking pending transactions:', error);
+    } finally {
+      this.isTracking = false;
+    }
+  }
+
+  // Private helper methods
+
+  private async broadcast(
+    signature: string,
+    raw: Buffer,
+    lastValidBlockHeight: number,
+    commitment: Finality,
+    context: SendContext
+  ): Promise<SendResult> {
+    // The first send runs preflight so an invalid transaction fails straight away. Any other
+    // error leaves it unknown whether the transaction reached a leader, so it is tracked and
+    // rebroadcast like one that was sent.
+    try {
+      await this.connection.sendRawTransaction(raw, { maxRetries: 0 });
+    } catch (error) {
+      if (error instanceof SendTransactionError) {
+        const message = `Transaction rejected: ${error.message}`;
+        await this.updateStatus(signature, 'failed', context, undefined, message);
+        return { success: false, signature, status: 'failed', error: message };
+      }
+      this.logger.warn(`Send of ${signature} failed, tracking it anyway: ${error.message}`);
+    }
+
+    let current: TransactionStatus = 'pending';
+    for (;;) {
+      await new Promise(resolve => setTimeout(resolve, this.options.rebroadcastMs));
+
+      const status = await this.getSignatureStatus(signature);
+      if (status?.err) {
+        const message = `Transaction failed on-chain: ${this.describeError(status.err)}`;
+        await this.updateStatus(signature, 'failed', context, status.slot, message);
+        return { success: false, signature, status: 'failed', slot: status.slot, error: message };
+      }
+
+      if (status?.confirmationStatus) {
+        if (status.confirmationStatus !== current) {
+          current = status.confirmationStatus;
+          await this.updateStatus(signature, current, context, status.slot);
+        }
+        if (COMMITMENT_RANK[current] >= COMMITMENT_RANK[commitment]) {
+          return { success: true, signature, status: current, slot: status.slot };
+        }
+        continue;
+      }
+
+      // Nothing on record. Only call it expired once the blockhash is too old even for the
+      // finalized chain, and the RPC's full history agrees the transaction never landed.
+      const blockHeight = await this.getBlockHeight();
+      if (blockHeight !== null && blockHeight > lastValidBlockHeight) {
+        const final = await this.getSignatureStatus(signature, true);
+        if (final === null) {
+          await this.updateStatus(signature, 'expired', context);
+          return { success: false, signature, status: 'expired', error: 'Blockhash expired before the transaction landed' };
+        }
+        continue;
+      }
+
+      // Not in a block yet, or dropped from a fork that was abandoned
+      current = 'pending';
+      await this.rebroadcast(signature, raw);
+    }
+  }
+
+  private async rebroadcast(signature: string, raw: Buffer): Promise<void> {
+    try {
+      await this.connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+    } catch (error) {
+      this.logger.warn(`Rebroadcast of ${signature} failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Finalized block height, or null when the RPC call fails so the caller keeps waiting
+   */
+  private async getBlockHeight(): Promise<number | null> {
+    try {
+      return await this.connection.getBlockHeight('finalized');
+    } catch (error) {
+      this.logger.warn(`Block height lookup failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Status of one signature: null when the RPC has no record of it, undefined when the
+   * lookup itself failed
+   */
+  private async getSignatureStatus(
+    signature: string,
+    searchTransactionHistory = false
+  ): Promise<SignatureStatus | null | undefined> {
+    try {
+      const result = await this.connection.getSignatureStatuses([signature], { searchTransactionHistory });
+      return result.value[0];
+    } catch (error) {
+      this.logger.warn(`Status lookup for ${signature} failed: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private async persist(
+    signature: string,
+    raw: Buffer,
+    lastValidBlockHeight: number,
+    context: SendContext,
+    replaces?: string
+  ): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO pending_transactions (
+        signature, kind, reference, wallet, raw_transaction, last_valid_block_height, replaces
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (signature) DO NOTHING
+    `, [
+      signature, context.kind, context.reference || null, context.wallet || null,
+      raw.toString('base64'), lastValidBlockHeight, replaces || null
+    ]);
+  }
+
+  private async updateStatus(
+    signature: string,
+    status: TransactionStatus,
+    context: { kind: string; reference?: string; wallet?: string },
+    slot?: number,
+    error?: string
+  ): Promise<void> {
+    try {
+      await this.pool.query(`
+        UPDATE pending_transactions
+        SET status = $2, slot = COALESCE($3, slot), error = COALESCE($4, error), updated_at = NOW()
+        WHERE signature = $1
+      `, [signature, status, slot ?? null, error || null]);
+    } catch (dbError) {
+      this.logger.error(`Error recording status ${status} for ${signature}:`, dbError);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(signature, status, { kind: context.kind, reference: context.reference, wallet: context.wallet });
+      } catch (listenerError) {
+        this.logger.error(`Transaction status listener failed for ${signature}:`, listenerError);
+      }
+    }
+  }
+
+  private getSignature(transaction: Transaction | VersionedTransaction): string {
+    const signature = transaction instanceof VersionedTransaction
+      ? transaction.signatures[0]
+      : transaction.signature;
+    if (!signature) {
+      throw new Error('Transaction must be signed before it is sent');
+    }
+    return bs58.encode(signature);
+  }
+
+  private describeError(error: unknown): string {
+    return typeof error === 'string' ? error : JSON.stringify(error);
+  }
+}
@@ -11,14 +11,28 @@ export enum OrderType {
 
 export enum OrderStatus {
   PENDING = 'pending',
+  EXECUTING = 'executing', // Swap sent, outcome not yet recorded
   FILLED = 'filled',
   PARTIALLY_FILLED = 'partially_filled',
   CANCELLED = 'cancelled',
   REJECTED = 'rejected',
   FAILED = 'failed',
-  EXPIRED = 'expired'
+  EXPIRED = 'expired',
+  WAITING = 'waiting' // Bracket child waiting for its parent to fill
 }
 
+// Live accounts trade real funds; paper accounts simulate fills against a virtual balance sheet
+export type AccountMode = 'live' | 'paper';
+
+// Which lots a sale is matched against: oldest first, newest first, or all lots pro rata
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+// Currency portfolio values and P&L are reported in
+export type PortfolioCurrency = 'SOL' | 'USD';
+
+// Tax export layouts: one row per lot disposal, or one row per trade in an importer's columns
+export type TaxExportFormat = 'csv' | 'koinly' | 'cointracker';
+
 export enum OrderSide {
   BUY = 'buy',
   SELL = 'sell'
@@ -51,6 +65,12 @@ export interface Order {
   stopPrice?: number;
   takeProfitPrice?: number;
   marketPrice?: number;
+  trailingStopPercentage?: number; // Retrace from the high-water mark that fires a TRAILING_STOP, in percent
+  trailingStopAmount?: number; // Absolute retrace, in outputMint units per inputMint
+  highWaterMark?: number; // Highest price seen since a TRAILING_STOP was placed
+  
+  filledAmount?: number; // Amount of inputMint actually swapped
+  averageFillPrice?: number; // Volume-weighted across all swaps for the order
   
   // Execution parameters
   slippageTolerance: number;
@@ -68,6 +88,43 @@ export interface Order {
   strategyId?: string;
   isAutomated?: boolean;
   parentOrderId?: string; // For bracket orders
+  gridLevel?: number; // Grid slot for GRID strategy orders
+  isPaper?: boolean; // Simulated fill against the user's paper balances
+  dexes?: string[]; // Restrict routing to these venues; applies to immediate execution only, not persisted
+  
+  // Sliced execution
+  twap?: TwapParameters;
+  twapState?: TwapState;
+  nextSliceAt?: Date;
+}
+
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  fromStatus?: OrderStatus; // Unset for the creation event
+  toStatus: OrderStatus;
+  reason?: string;
+  quote?: Quote;
+  signature?: string;
+  createdAt: Date;
+}
+
+export interface TwapParameters {
+  slices: number;
+  duration: string; // Window the slices are spread over, e.g. '30m'
+  sizeVariance?: number; // 0-1, random +/- share of the even slice size
+  timingVariance?: number; // 0-1, random +/- share of the even slice interval
+  maxPriceImpactPct?: number; // Abort when a slice quote's price impact exceeds this
+}
+
+export interface TwapState {
+  sliceAmounts: number[]; // Planned up front so restarts resume the same schedule
+  slicesExecuted: number;
+}
+
+export interface BracketParameters {
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
 }
 
 export interface Trade {
@@ -84,6 +141,7 @@ export interface Trade {
   // Trade details
   inputAmount: number;
   outputAmount: number;
+  expectedOutputAmount?: number; // Quoted output; outputAmount is what was actually received
   price: number;
   side: OrderSide;
   
@@ -94,8 +152,13 @@ export interface Trade {
   
   // Costs
   fees: number;
-  slippage: number;
+  slippage: number; // Realised, fill price against referencePrice (positive is worse); quote impact when unpriced
   gasUsed?: number;
+
+  // Pre-trade price check
+  referencePrice?: number; // Oracle price of inputMint in outputMint when the quote was checked
+  expectedSlippage?: number; // Quoted price against referencePrice (positive is worse)
+  priceImpact?: number; // Jupiter's priceImpactPct for the quote, as a fraction
   
   // DEX info
   dex?: string;
@@ -104,6 +167,12 @@ export interface Trade {
   // P&L (calculated)
   pnl?: number;
   pnlPercentage?: number;
+  
+  isSimulated?: boolean; // Paper-trading fill, no transaction was sent
+
+  // MEV analysis (filled in by MEVScanner once the block is available)
+  mevStatus?: MevStatus;
+  mevLoss?: number; // SOL
 }
 
 export interface Position {
@@ -150,12 +219,47 @@ export interface Portfolio {
   
   // Positions
   positions: Position[];
+  currency?: PortfolioCurrency;
+  costBasisMethod?: CostBasisMethod;
+  incomplete?: boolean; // The cash balance or a position could not be valued, so totals are understated
   
   // Metadata
   createdAt: Date;
   lastUpdatedAt: Date;
 }
 
+export interface EquityPoint {
+  timestamp: Date;
+  value: number;
+  invested: number;
+  benchmarkValue: number; // Starting value held in SOL instead
+}
+
+export interface PortfolioPerformance {
+  period: string;
+  mode: AccountMode;
+  currency: PortfolioCurrency;
+  startDate: Date;
+  endDate: Date;
+  equityCurve: EquityPoint[];
+  startValue: number;
+  endValue: number;
+  periodReturn: number; // Percent
+  maxDrawdown: number; // Percent, peak to trough
+  maxDrawdownPeakAt?: Date;
+  maxDrawdownTroughAt?: Date;
+  benchmarkReturn: number; // Percent, holding SOL over the same period
+  excessReturn: number; // periodReturn minus benchmarkReturn
+}
+
+export interface TaxExportOptions {
+  mode: AccountMode;
+  format: TaxExportFormat;
+  method?: CostBasisMethod; // Defaults to the user's own method
+  from?: Date;
+  to?: Date;
+}
+
 export interface Strategy {
   id: string;
   userId: string;
@@ -181,6 +285,39 @@ export interface Strategy {
   // Metadata
   createdAt: Date;
   lastExecutedAt?: Date;
+  activatedAt?: Date; // Last switched on by the user; createdAt if never toggled
+  isPaper?: boolean; // Orders placed by the strategy are simulated
+}
+
+export interface DcaParameters {
+  amountPerOrder: number; // In inputMint units
+  interval: string; // e.g. '15m', '4h', '1d', '1w'
+  totalBudget?: number; // In inputMint units, strategy stops once spent
+  startDate?: string;
+  endDate?: string;
+  slippageTolerance?: number;
+}
+
+export interface GridParameters {
+  lowerPrice: number; // Price of outputMint in inputMint units
+  upperPrice: number;
+  levels: number; // Number of price levels, giving levels - 1 buy/sell slots
+  amountPerLevel: number; // In inputMint units spent per buy
+  checkInterval?: string; // How often the grid is reconciled, e.g. '1m'
+  slippageTolerance?: number;
+}
+
+export interface ArbitrageParameters {
+  minProfitPercentage: number; // Net of gas, in percent of the amount traded
+  maxAmount: number; // In inputMint units per round trip
+  slippageTolerance?: number;
+}
+
+export interface PaperBalance {
+  mint: string;
+  amount: number;
+  costBasis: number; // SOL paid for the current amount
+  updatedAt: Date;
 }
 
 export interface MarketData {
@@ -205,9 +342,41 @@ export interface MarketData {
   timestamp: Date;
 }
 
+export interface Candle {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface CandleWithIndicators extends Candle {
+  sma?: number;
+  ema?: number;
+  rsi?: number;
+  macd?: number;
+  macdSignal?: number;
+  macdHistogram?: number;
+  bollinger?: {
+    upper: number;
+    middle: number;
+    lower: number;
+  };
+  atr?: number;
+  vwap?: number;
+}
+
+export interface MarketDataSeries extends MarketData {
+  timeframe: string;
+  candles: CandleWithIndicators[];
+}
+
 export interface OrderBook {
   mint: string;
   symbol: string;
+  quoteMint?: string; // Mint prices and sizes on the other side are quoted in
+  midPrice?: number;
   bids: OrderBookLevel[];
   asks: OrderBookLevel[];
   timestamp: Date;
@@ -217,6 +386,8 @@ export interface OrderBookLevel {
   price: number;
   size: number;
   count: number;
+  cumulativeSize?: number; // Size fillable up to and including this level
+  priceImpact?: number; // Fraction, average fill price against mid for cumulativeSize
 }
 
 export interface Quote {
@@ -251,6 +422,9 @@ export interface RoutePlan {
   percent: number;
 }
 
+// How aggressively a transaction bids for block space, mapped to a percentile of recent fees
+export type PriorityLevel = 'low' | 'medium' | 'high' | 'turbo';
+
 export interface SwapResult {
   success: boolean;
   signature?: string;
@@ -258,6 +432,7 @@ export interface SwapResult {
   fees?: number;
   slippage?: number;
   gasUsed?: number;
+  outputAmount?: number; // UI amount actually received, when known
 }
 
 export interface RiskParameters {
@@ -265,11 +440,40 @@ export interface RiskParameters {
   maxPortfolioRisk: number;
   maxDailyLoss: number;
   maxSlippage: number;
+  maxPriceImpact: number;
+  maxPriceDeviation: number;
   minLiquidity: number;
   blacklistedTokens: string[];
   maxOrdersPerHour: number;
 }
 
+// Machine-readable risk rejection codes, stored as the prefix of orders.failure_reason
+export enum RiskRejectionCode {
+  BLACKLISTED_TOKEN = 'RISK_BLACKLISTED_TOKEN',
+  MAX_ORDERS_PER_HOUR = 'RISK_MAX_ORDERS_PER_HOUR',
+  MAX_SLIPPAGE = 'RISK_MAX_SLIPPAGE',
+  MAX_PRICE_IMPACT = 'RISK_MAX_PRICE_IMPACT',
+  MAX_PRICE_DEVIATION = 'RISK_MAX_PRICE_DEVIATION',
+  MAX_POSITION_SIZE = 'RISK_MAX_POSITION_SIZE',
+  MAX_PORTFOLIO_RISK = 'RISK_MAX_PORTFOLIO_RISK',
+  MAX_DAILY_LOSS = 'RISK_MAX_DAILY_LOSS',
+  MIN_LIQUIDITY = 'RISK_MIN_LIQUIDITY',
+  PRICE_UNAVAILABLE = 'RISK_PRICE_UNAVAILABLE'
+}
+
+export interface RiskCheckResult {
+  isValid: boolean;
+  code?: RiskRejectionCode;
+  reason?: string;
+}
+
+export interface QuoteCheckResult extends RiskCheckResult {
+  quotedPrice?: number; // outputMint per inputMint, in UI units
+  referencePrice?: number;
+  expectedSlippage?: number;
+  priceImpact?: number;
+}
+
 export interface BacktestResult {
   strategyId: string;
   period: {
@@ -301,6 +505,15 @@ export interface BacktestResult {
   }>;
 }
 
+export interface BacktestOptions {
+  initialCapital: number; // In the strategy's inputMint units
+  feeBps: number; // Charged on every fill
+  slippageBps: number; // Applied to market fills
+  latencyMs: number; // Delay between a signal and its market fill
+  startDate?: Date;
+  endDate?: Date;
+}
+
 export interface ArbitrageOpportunity {
   id: string;
   inputMint: string;
@@ -358,6 +571,31 @@ export interface MEVOpportunity {
   }>;
 }
 
+// possible_frontrun: a pool trade landed just ahead of ours with nothing marking it as an attack
+export type MevStatus = 'clean' | 'sandwiched' | 'frontrun' | 'possible_frontrun' | 'unavailable';
+
+export interface MevAnalysis {
+  tradeId: string;
+  signature: string;
+  status: MevStatus;
+  attacker?: string;
+  frontRunSignature?: string;
+  backRunSignature?: string;
+  estimatedLoss: number; // SOL, quoted output minus what the swap actually delivered
+  analysedAt: Date;
+}
+
+export interface MevLossReport {
+  period: string;
+  tradesAnalysed: number;
+  sandwiched: number;
+  frontrun: number;
+  possibleFrontrun: number; // Not counted in totalLoss
+  totalLoss: number; // SOL
+  lossByMint: Array<{ mint: string; trades: number; loss: number }>;
+  recommendedSlippage: number;
+}
+
 // WebSocket message types
 export interface WSMessage {
   type: string;
@@ -383,9 +621,15 @@ export interface OrderUpdateMessage extends WSMessage {
   };
 }
 
+export interface ArbitrageOpportunityMessage extends WSMessage {
+  type: 'arbitrage_opportunity';
+  data: ArbitrageOpportunity;
+}
+
 export interface PortfolioUpdateMessage extends WSMessage {
   type: 'portfolio_update';
   data: {
+    mode: AccountMode;
     totalValue: number;
     totalPnl: number;
     positions: Position[];
@@ -0,0 +1,202 @@
+import { Candle, CandleWithIndicators } from '../types/trading';
+
+// Technical indicators over candle series.
+// Every function returns an array aligned with its input; entries before the
+// indicator has enough data (the warm-up period) are NaN.
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    if (i >= period - 1) {
+      result[i] = sum / period;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first period
+ */
+export function ema(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  const multiplier = 2 / (period + 1);
+  const start = values.findIndex(value => !isNaN(value));
+  if (start === -1 || values.length - start < period) {
+    return result;
+  }
+
+  let previous = values.slice(start, start + period).reduce((sum, value) => sum + value, 0) / period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    previous = (values[i] - previous) * multiplier + previous;
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * Relative strength index using Wilder's smoothing
+ */
+export function rsi(closes: number[], period = 14): number[] {
+  const result: number[] = new Array(closes.length).fill(NaN);
+  if (closes.length <= period) {
+    return result;
+  }
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+  result[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi(avgGain, avgLoss);
+  }
+
+  return result;
+}
+
+function toRsi(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) {
+    return avgGain === 0 ? 50 : 100;
+  }
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Moving average convergence divergence
+ */
+export function macd(
+  closes: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): { macd: number[]; signal: number[]; histogram: number[] } {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const macdLine = closes.map((_, i) => fast[i] - slow[i]);
+  const signal = ema(macdLine, signalPeriod);
+  const histogram = macdLine.map((value, i) => value - signal[i]);
+
+  return { macd: macdLine, signal, histogram };
+}
+
+/**
+ * Bollinger bands: SMA middle band with upper/lower bands at stdDev standard deviations
+ */
+export function bollingerBands(
+  closes: number[],
+  period = 20,
+  stdDev = 2
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = sma(closes, period);
+  const upper: number[] = new Array(closes.length).fill(NaN);
+  const lower: number[] = new Array(closes.length).fill(NaN);
+
+  for (let i = period - 1; i < closes.length; i++) {
+    const window = closes.slice(i - period + 1, i + 1);
+    const variance = window.reduce((sum, value) => sum + Math.pow(value - middle[i], 2), 0) / period;
+    const deviation = Math.sqrt(variance) * stdDev;
+    upper[i] = middle[i] + deviation;
+    lower[i] = middle[i] - deviation;
+  }
+
+  return { upper, middle, lower };
+}
+
+/**
+ * Average true range using Wilder's smoothing
+ */
+export function atr(candles: Candle[], period = 14): number[] {
+  const result: number[] = new Array(candles.length).fill(NaN);
+  if (candles.length < period) {
+    return result;
+  }
+
+  const trueRanges = candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low;
+    const previousClose = candles[i - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+  });
+
+  let previous = trueRanges.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = previous;
+
+  for (let i = period; i < candles.length; i++) {
+    previous = (previous * (period - 1) + trueRanges[i]) / period;
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * Volume weighted average price, cumulative over the series
+ */
+export function vwap(candles: Candle[]): number[] {
+  let cumulativeVolume = 0;
+  let cumulativeValue = 0;
+
+  return candles.map(candle => {
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    cumulativeVolume += candle.volume;
+    cumulativeValue += typicalPrice * candle.volume;
+    return cumulativeVolume > 0 ? cumulativeValue / cumulativeVolume : NaN;
+  });
+}
+
+/**
+ * Attach the standard indicator set to each candle (20-period SMA/EMA/Bollinger,
+ * 14-period RSI/ATR, 12/26/9 MACD and cumulative VWAP)
+ */
+export function withIndicators(candles: Candle[]): CandleWithIndicators[] {
+  const closes = candles.map(candle => candle.close);
+  const sma20 = sma(closes, 20);
+  const ema20 = ema(closes, 20);
+  const rsi14 = rsi(closes, 14);
+  const macdResult = macd(closes);
+  const bands = bollingerBands(closes);
+  const atr14 = atr(candles, 14);
+  const vwapSeries = vwap(candles);
+
+  const value = (n: number) => (isNaN(n) ? undefined : n);
+
+  return candles.map((candle, i) => ({
+    ...candle,
+    sma: value(sma20[i]),
+    ema: value(ema20[i]),
+    rsi: value(rsi14[i]),
+    macd: value(macdResult.macd[i]),
+    macdSignal: value(macdResult.signal[i]),
+    macdHistogram: value(macdResult.histogram[i]),
+    bollinger: isNaN(bands.middle[i])
+      ? undefined
+      : { upper: bands.upper[i], middle: bands.middle[i], lower: bands.lower[i] },
+    atr: value(atr14[i]),
+    vwap: value(vwapSeries[i])
+  }));
+}
@@ -0,0 +1,18 @@
+const INTERVAL_UNITS_MS: { [unit: string]: number } = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse an interval such as '15m', '4h', '1d' or '1w' into milliseconds.
+ * Returns null if the interval is not valid.
+ */
+export function parseIntervalMs(interval: string): number | null {
+  const match = /^(\d+)([mhdw])$/.exec(String(interval || '').trim());
+  if (!match || parseInt(match[1]) <= 0) {
+    return null;
+  }
+  return parseInt(match[1]) * INTERVAL_UNITS_MS[match[2]];
+}
@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Encrypt a private key for storage (AES-256-GCM) as iv:authTag:encrypted, the format
+ * WalletService has always used
+ */
+export function encryptPrivateKey(privateKey: string, password: string): string {
+  const key = crypto.scryptSync(password, 'salt', 32);
+  const iv = crypto.randomBytes(12); // 12 bytes for GCM
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  let encrypted = cipher.update(privateKey, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+  const authTag = cipher.getAuthTag();
+  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+}
+
+/**
+ * Decrypt a private key stored by encryptPrivateKey
+ */
+export function decryptPrivateKey(encryptedKey: string, password: string): string {
+  const key = crypto.scryptSync(password, 'salt', 32);
+  const [ivHex, authTagHex, encrypted] = encryptedKey.split(':');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+  return decrypted;
+}